@@ -0,0 +1,725 @@
+import { RequestUrlResponse, requestUrl } from 'obsidian';
+
+/**
+ * Confluence REST client shared by every call the plugin makes.
+ *
+ * Cloud is spoken to through the v2 API where it has an endpoint (pages,
+ * attachments and labels) and through v1 for the writes v2 doesn't cover:
+ * minor-edit page updates, attachment uploads, label changes and archiving.
+ * Comments are read through v1 too, since v2 doesn't name their authors.
+ * Data Center only has v1. Either way callers get the same normalized shapes.
+ */
+
+export interface ConfluenceConnection {
+  deployment: 'cloud' | 'datacenter';
+  domain: string;
+  username: string;
+}
+
+export interface ConfluencePage {
+  id: string;
+  title: string;
+  status?: string;
+  parentId?: string | null;
+  version: {
+    number: number;
+  };
+  body?: {
+    storage?: {
+      value: string;
+    };
+  };
+}
+
+export interface ConfluenceAttachment {
+  id: string;
+  title: string;
+  fileSize?: number;
+  comment?: string;
+  downloadLink?: string;
+}
+
+export interface ConfluenceComment {
+  id: string;
+  location: 'footer' | 'inline';
+  // The comment this one replies to
+  parentId: string | null;
+  author: string;
+  created: string;
+  // Storage format
+  body: string;
+  version: number;
+  resolved: boolean;
+  // Page text an inline comment is attached to
+  selection?: string;
+}
+
+export interface PageVersion {
+  number: number;
+  minorEdit?: boolean;
+  message?: string;
+}
+
+// Response shapes of the endpoints the client reads. v2 pages and
+// attachments already have the normalized shapes; v1 ones are mapped to them.
+interface Paginated<T> {
+  results?: T[];
+  _links?: {
+    next?: string;
+  };
+}
+
+interface V1Page {
+  id: string;
+  title: string;
+  status?: string;
+  version: {
+    number: number;
+  };
+  body?: {
+    storage?: {
+      value: string;
+    };
+  };
+  ancestors?: { id: string }[];
+}
+
+interface V1Attachment {
+  id: string;
+  title: string;
+  extensions?: {
+    fileSize?: number;
+    comment?: string;
+  };
+  metadata?: {
+    comment?: string;
+  };
+  _links?: {
+    download?: string;
+  };
+}
+
+interface V1Comment {
+  id: string;
+  ancestors?: { id: string }[];
+  body?: {
+    storage?: {
+      value: string;
+    };
+  };
+  history?: {
+    createdBy?: { displayName?: string };
+    createdDate?: string;
+  };
+  version?: {
+    number?: number;
+    by?: { displayName?: string };
+    when?: string;
+  };
+  extensions?: {
+    location?: string;
+    inlineProperties?: { originalSelection?: string };
+    resolution?: { status?: string };
+  };
+}
+
+interface Label {
+  name: string;
+}
+
+interface Space {
+  id: string;
+}
+
+interface ErrorResponse {
+  message?: string;
+  errors?: { title?: string }[];
+}
+
+interface RequestOptions {
+  body?: string | ArrayBuffer;
+  contentType?: string;
+  headers?: Record<string, string>;
+}
+
+// Rate limited requests are retried this many times before giving up
+const MAX_RETRIES = 5;
+const MAX_RETRY_DELAY = 60000;
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => window.setTimeout(resolve, ms));
+
+export class ConfluenceClient {
+  getConnection: () => ConfluenceConnection;
+  // The token is asked for on each request; it may need unlocking first
+  getToken: () => Promise<string>;
+  spaceIds = new Map<string, string>();
+
+  constructor(
+    getConnection: () => ConfluenceConnection,
+    getToken: () => Promise<string>,
+  ) {
+    this.getConnection = getConnection;
+    this.getToken = getToken;
+  }
+
+  get isCloud(): boolean {
+    return this.getConnection().deployment !== 'datacenter';
+  }
+
+  get baseUrl(): string {
+    // Cloud serves Confluence under /wiki; Data Center at the configured URL
+    const domain = this.getConnection().domain.replace(/\/+$/, '');
+    return this.isCloud ? `${domain}/wiki` : domain;
+  }
+
+  async getAuthHeader(): Promise<string> {
+    const apiToken = await this.getToken();
+    if (!this.isCloud) {
+      return `Bearer ${apiToken}`;
+    }
+    const credentials = Buffer.from(
+      `${this.getConnection().username}:${apiToken}`,
+    ).toString('base64');
+    return `Basic ${credentials}`;
+  }
+
+  async request(
+    method: string,
+    path: string,
+    options: RequestOptions = {},
+  ): Promise<RequestUrlResponse> {
+    const url = /^https?:/.test(path) ? path : `${this.baseUrl}${path}`;
+    const authorization = await this.getAuthHeader();
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await requestUrl({
+        url,
+        method,
+        headers: {
+          Authorization: authorization,
+          ...(options.contentType
+            ? { 'Content-Type': options.contentType }
+            : {}),
+          ...options.headers,
+        },
+        body: options.body,
+        throw: false,
+      });
+
+      if (response.status !== 429 || attempt >= MAX_RETRIES) {
+        return response;
+      }
+      await sleep(this.getRetryDelay(response, attempt));
+    }
+  }
+
+  getRetryDelay(response: RequestUrlResponse, attempt: number): number {
+    const retryAfter = Object.entries(response.headers || {}).find(
+      ([name]) => name.toLowerCase() === 'retry-after',
+    )?.[1];
+
+    // Retry-After is either a number of seconds or an HTTP date
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = isNaN(seconds)
+        ? Date.parse(retryAfter) - Date.now()
+        : seconds * 1000;
+      if (!isNaN(delay)) {
+        return Math.min(Math.max(delay, 0), MAX_RETRY_DELAY);
+      }
+    }
+
+    // Exponential backoff with some jitter when the server doesn't say
+    return (
+      Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY) + Math.random() * 500
+    );
+  }
+
+  /**
+   * The JSON the endpoint responds with, null for an empty response. The
+   * caller names the shape it expects.
+   */
+  async send<T = unknown>(
+    method: string,
+    path: string,
+    action: string,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const response = await this.request(method, path, options);
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(
+        `Failed to ${action}: ${response.status} - ${this.getErrorDetail(response)}`,
+      );
+    }
+
+    return response.text ? response.json : null;
+  }
+
+  async sendJson<T = unknown>(
+    method: string,
+    path: string,
+    action: string,
+    body: unknown,
+  ): Promise<T> {
+    return this.send<T>(method, path, action, {
+      body: JSON.stringify(body),
+      contentType: 'application/json',
+    });
+  }
+
+  getErrorDetail(response: RequestUrlResponse): string {
+    try {
+      const error: ErrorResponse | null = response.json;
+      return error?.message || error?.errors?.[0]?.title || response.text;
+    } catch {
+      return response.text;
+    }
+  }
+
+  /**
+   * Every result of a listing, following `_links.next`. v2 uses cursors and
+   * v1 offsets, but both hand out the next URL.
+   */
+  async paginate<T>(path: string, action: string): Promise<T[]> {
+    const results: T[] = [];
+    const origin = new URL(this.baseUrl).origin;
+    const contextPath = new URL(this.baseUrl).pathname.replace(/\/$/, '');
+    let next: string | undefined = path;
+
+    while (next) {
+      const data: Paginated<T> = await this.send('GET', next, action);
+      results.push(...(data.results || []));
+
+      // v2 links include the /wiki context path, v1 links don't
+      const link: string | undefined = data._links?.next;
+      next =
+        link && contextPath && link.startsWith(`${contextPath}/`)
+          ? `${origin}${link}`
+          : link;
+    }
+
+    return results;
+  }
+
+  async getSpaceId(spaceKey: string): Promise<string> {
+    const cached = this.spaceIds.get(spaceKey);
+    if (cached) return cached;
+
+    const data = await this.send<Paginated<Space>>(
+      'GET',
+      `/api/v2/spaces?keys=${encodeURIComponent(spaceKey)}`,
+      `look up space ${spaceKey}`,
+    );
+    const id = data.results?.[0]?.id;
+    if (!id) {
+      throw new Error(`Space ${spaceKey} was not found`);
+    }
+
+    this.spaceIds.set(spaceKey, id);
+    return id;
+  }
+
+  async findPages(
+    spaceKey: string,
+    title: string,
+    status: 'current' | 'archived' = 'current',
+  ): Promise<ConfluencePage[]> {
+    const query = `title=${encodeURIComponent(title)}&status=${status}`;
+
+    if (this.isCloud) {
+      const spaceId = await this.getSpaceId(spaceKey);
+      return this.paginate<ConfluencePage>(
+        `/api/v2/pages?space-id=${spaceId}&${query}&limit=250`,
+        'search for page',
+      );
+    }
+
+    const pages = await this.paginate<V1Page>(
+      `/rest/api/content?spaceKey=${encodeURIComponent(spaceKey)}&${query}&expand=version,ancestors&limit=100`,
+      'search for page',
+    );
+    return pages.map((page) => this.fromV1Page(page));
+  }
+
+  async getPage(pageId: string): Promise<ConfluencePage> {
+    const page = await this.findPage(pageId);
+    if (!page) {
+      throw new Error(`Failed to fetch page ${pageId}: 404 - Page not found`);
+    }
+    return page;
+  }
+
+  /**
+   * The page, or null when it doesn't exist (any more)
+   */
+  async findPage(pageId: string): Promise<ConfluencePage | null> {
+    const response = await this.request(
+      'GET',
+      this.isCloud
+        ? `/api/v2/pages/${pageId}?body-format=storage`
+        : `/rest/api/content/${pageId}?expand=body.storage,version,ancestors`,
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(
+        `Failed to fetch page ${pageId}: ${response.status} - ${this.getErrorDetail(response)}`,
+      );
+    }
+    return this.isCloud
+      ? (response.json as ConfluencePage)
+      : this.fromV1Page(response.json as V1Page);
+  }
+
+  async createPage(
+    spaceKey: string,
+    title: string,
+    content: string,
+    parentId: string | null,
+    status: 'current' | 'draft',
+  ): Promise<ConfluencePage> {
+    const action = `create page "${title}"`;
+
+    if (this.isCloud) {
+      // Without a parent, v2 would put the page under the space homepage
+      return this.sendJson<ConfluencePage>(
+        'POST',
+        `/api/v2/pages${parentId ? '' : '?root-level=true'}`,
+        action,
+        {
+          spaceId: await this.getSpaceId(spaceKey),
+          status,
+          title,
+          ...(parentId ? { parentId } : {}),
+          body: { representation: 'storage', value: content },
+        },
+      );
+    }
+
+    const page = await this.sendJson<V1Page>('POST', '/rest/api/content', action, {
+      type: 'page',
+      status,
+      title,
+      space: { key: spaceKey },
+      body: { storage: { value: content, representation: 'storage' } },
+      ...(parentId ? { ancestors: [{ id: parentId }] } : {}),
+    });
+    return this.fromV1Page(page);
+  }
+
+  /**
+   * v1 on both deployments: v2 can't mark an update as a minor edit.
+   * Publishing a draft is an update of the draft to status current.
+   */
+  async updatePage(
+    pageId: string,
+    title: string,
+    content: string,
+    version: PageVersion,
+    parentId: string | null = null,
+    fromDraft = false,
+  ): Promise<ConfluencePage> {
+    const page = await this.sendJson<V1Page>(
+      'PUT',
+      `/rest/api/content/${pageId}${fromDraft ? '?status=draft' : ''}`,
+      `update page "${title}"`,
+      {
+        version: {
+          number: version.number,
+          minorEdit: !!version.minorEdit,
+          ...(version.message ? { message: version.message } : {}),
+        },
+        title,
+        type: 'page',
+        status: 'current',
+        body: { storage: { value: content, representation: 'storage' } },
+        ...(parentId ? { ancestors: [{ id: parentId }] } : {}),
+      },
+    );
+    return this.fromV1Page(page);
+  }
+
+  async deleteDraft(pageId: string) {
+    await this.send(
+      'DELETE',
+      this.isCloud
+        ? `/api/v2/pages/${pageId}?draft=true`
+        : `/rest/api/content/${pageId}?status=draft`,
+      'delete draft',
+    );
+  }
+
+  async archivePages(pageIds: string[]) {
+    if (!this.isCloud) {
+      throw new Error('Archiving pages is only available on Confluence Cloud');
+    }
+
+    // Archiving runs as a long task in Confluence; accepted is enough here
+    await this.sendJson('POST', '/rest/api/content/archive', 'archive pages', {
+      pages: pageIds.map((id) => ({ id })),
+    });
+  }
+
+  async listAttachments(pageId: string): Promise<ConfluenceAttachment[]> {
+    if (this.isCloud) {
+      return this.paginate<ConfluenceAttachment>(
+        `/api/v2/pages/${pageId}/attachments?limit=250`,
+        'list attachments',
+      );
+    }
+
+    const attachments = await this.paginate<V1Attachment>(
+      `/rest/api/content/${pageId}/child/attachment?expand=metadata,extensions&limit=100`,
+      'list attachments',
+    );
+    return attachments.map((attachment) => ({
+      id: attachment.id,
+      title: attachment.title,
+      fileSize: attachment.extensions?.fileSize,
+      comment: attachment.extensions?.comment || attachment.metadata?.comment,
+      downloadLink: attachment._links?.download,
+    }));
+  }
+
+  async uploadAttachment(
+    pageId: string,
+    filename: string,
+    data: ArrayBuffer,
+    contentType: string,
+    fields: Record<string, string> = {},
+    draft = false,
+  ) {
+    // v2 has no upload endpoint. PUT creates or updates the attachment.
+    const boundary =
+      '----WebKitFormBoundary' + Math.random().toString(36).substring(2);
+
+    await this.send(
+      'PUT',
+      `/rest/api/content/${pageId}/child/attachment${draft ? '?status=draft' : ''}`,
+      `upload attachment ${filename}`,
+      {
+        body: createMultipartBody(boundary, filename, data, contentType, fields),
+        contentType: `multipart/form-data; boundary=${boundary}`,
+        headers: { 'X-Atlassian-Token': 'nocheck' },
+      },
+    );
+  }
+
+  async downloadAttachment(
+    pageId: string,
+    filename: string,
+  ): Promise<ArrayBuffer> {
+    const attachment = (await this.listAttachments(pageId)).find(
+      (candidate) => candidate.title === filename,
+    );
+    if (!attachment?.downloadLink) {
+      throw new Error(`Attachment not found on page: ${filename}`);
+    }
+
+    const response = await this.request('GET', attachment.downloadLink);
+    if (response.status !== 200) {
+      throw new Error(
+        `Failed to download attachment ${filename}: ${response.status}`,
+      );
+    }
+    return response.arrayBuffer;
+  }
+
+  async deleteAttachment(attachmentId: string) {
+    await this.send(
+      'DELETE',
+      this.isCloud
+        ? `/api/v2/attachments/${attachmentId}`
+        : `/rest/api/content/${attachmentId}`,
+      'delete attachment',
+    );
+  }
+
+  async listLabels(pageId: string): Promise<string[]> {
+    const labels = this.isCloud
+      ? await this.paginate<Label>(
+          `/api/v2/pages/${pageId}/labels?limit=250`,
+          'list labels',
+        )
+      : await this.paginate<Label>(
+          `/rest/api/content/${pageId}/label?limit=200`,
+          'list labels',
+        );
+    return labels.map((label) => label.name);
+  }
+
+  async addLabels(pageId: string, labels: string[]) {
+    await this.sendJson(
+      'POST',
+      `/rest/api/content/${pageId}/label`,
+      'add labels',
+      labels.map((name) => ({ prefix: 'global', name })),
+    );
+  }
+
+  async removeLabel(pageId: string, label: string) {
+    const response = await this.request(
+      'DELETE',
+      `/rest/api/content/${pageId}/label?name=${encodeURIComponent(label)}`,
+    );
+
+    // Someone may have removed the label in Confluence already
+    if (![200, 204, 404].includes(response.status)) {
+      throw new Error(
+        `Failed to remove label ${label}: ${response.status} - ${this.getErrorDetail(response)}`,
+      );
+    }
+  }
+
+  /**
+   * Footer and inline comments of a page with all their replies, oldest
+   * first. v1 on both deployments: v2 only has the authors' account ids.
+   */
+  async listComments(pageId: string): Promise<ConfluenceComment[]> {
+    const comments = await this.paginate<V1Comment>(
+      `/rest/api/content/${pageId}/child/comment?depth=all&expand=body.storage,version,history,ancestors,extensions.inlineProperties,extensions.resolution&limit=100`,
+      'list comments',
+    );
+
+    return comments
+      .map((comment): ConfluenceComment => {
+        const ancestors = comment.ancestors || [];
+        return {
+          id: comment.id,
+          location:
+            comment.extensions?.location === 'inline' ? 'inline' : 'footer',
+          parentId:
+            ancestors.length > 0 ? ancestors[ancestors.length - 1].id : null,
+          author:
+            comment.history?.createdBy?.displayName ||
+            comment.version?.by?.displayName ||
+            'Unknown user',
+          created: comment.history?.createdDate || comment.version?.when || '',
+          body: comment.body?.storage?.value || '',
+          version: comment.version?.number || 1,
+          resolved: comment.extensions?.resolution?.status === 'resolved',
+          selection: comment.extensions?.inlineProperties?.originalSelection,
+        };
+      })
+      .sort((a, b) => a.created.localeCompare(b.created));
+  }
+
+  async replyToComment(
+    pageId: string,
+    comment: ConfluenceComment,
+    content: string,
+  ) {
+    if (this.isCloud) {
+      await this.sendJson(
+        'POST',
+        `/api/v2/${comment.location}-comments`,
+        'reply to comment',
+        {
+          parentCommentId: comment.id,
+          body: { representation: 'storage', value: content },
+        },
+      );
+      return;
+    }
+
+    await this.sendJson('POST', '/rest/api/content', 'reply to comment', {
+      type: 'comment',
+      container: { id: pageId, type: 'page' },
+      ancestors: [{ id: comment.id }],
+      body: { storage: { value: content, representation: 'storage' } },
+    });
+  }
+
+  /**
+   * Only inline comments can be resolved, and only Cloud has an API for it.
+   */
+  async resolveComment(comment: ConfluenceComment) {
+    if (!this.isCloud || comment.location !== 'inline') {
+      throw new Error(
+        'Only inline comments on Confluence Cloud can be resolved from Obsidian',
+      );
+    }
+
+    await this.sendJson(
+      'PUT',
+      `/api/v2/inline-comments/${comment.id}`,
+      'resolve comment',
+      {
+        version: { number: comment.version + 1 },
+        body: { representation: 'storage', value: comment.body },
+        resolved: true,
+      },
+    );
+  }
+
+  async getCurrentUser(): Promise<RequestUrlResponse> {
+    return this.request('GET', '/rest/api/user/current');
+  }
+
+  async getSpace(spaceKey: string): Promise<RequestUrlResponse> {
+    return this.request(
+      'GET',
+      `/rest/api/space/${encodeURIComponent(spaceKey)}?expand=operations`,
+    );
+  }
+
+  fromV1Page(page: V1Page): ConfluencePage {
+    const { ancestors = [], ...rest } = page;
+    return {
+      ...rest,
+      parentId: ancestors.length > 0 ? ancestors[ancestors.length - 1].id : null,
+    };
+  }
+}
+
+function createMultipartBody(
+  boundary: string,
+  filename: string,
+  fileData: ArrayBuffer,
+  contentType: string,
+  fields: Record<string, string>,
+): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+
+  // Add boundary and headers
+  const header = [
+    `--${boundary}`,
+    `Content-Disposition: form-data; name="file"; filename="${filename}"`,
+    `Content-Type: ${contentType}`,
+    '',
+    '',
+  ].join('\r\n');
+
+  parts.push(encoder.encode(header));
+  parts.push(new Uint8Array(fileData));
+  for (const [name, value] of Object.entries(fields)) {
+    parts.push(
+      encoder.encode(
+        [
+          '',
+          `--${boundary}`,
+          `Content-Disposition: form-data; name="${name}"`,
+          '',
+          value,
+        ].join('\r\n'),
+      ),
+    );
+  }
+  parts.push(encoder.encode(`\r\n--${boundary}--\r\n`));
+
+  // Combine all parts
+  const totalLength = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+
+  return result.buffer;
+}
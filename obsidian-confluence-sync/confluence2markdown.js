@@ -0,0 +1,762 @@
+import {
+  DEFAULT_MATH_MACROS,
+  collectDataviewQueries,
+  collectEmbeds,
+  collectFootnotes,
+  collectMath,
+  collectMermaidDiagrams,
+  toConfluenceAnchor,
+} from './markdown2confluence';
+
+/**
+ * Confluence storage format -> markdown converter, for pulling pages back into
+ * the vault.
+ *
+ * Storage format is XHTML with ac:/ri: prefixed tags. It is parsed with the
+ * DOMParser of the environment (Obsidian's, or jsdom in the tests) and walked
+ * block by block. The same walk turns HTML rendered by Obsidian, such as
+ * dataviewjs output, into markdown.
+ *
+ * This module must not depend on Obsidian so it can run headless.
+ */
+
+/**
+ * @typedef {Object} PullOptions
+ * @property {string} [localMarkdown]
+ *   The note as it is in the vault. Mermaid diagrams and formulas published
+ *   as images, and Dataview queries published as snapshots, are put back from
+ *   it, embedded files keep the paths the note embeds them by and footnotes
+ *   keep their labels.
+ * @property {import('./markdown2confluence').MathMacros} [mathMacros]
+ *   Names of the macros formulas are published with, `DEFAULT_MATH_MACROS`
+ *   unless given
+ * @property {(page: LinkedPage, anchor: string) => string | null} [resolvePageLink]
+ *   Wiki link target (`Note#Heading`) of the note published as a linked page,
+ *   or null for pages of no note. Links to pages without a note, or without a
+ *   resolver, point at the page title.
+ */
+
+/**
+ * A linked page, by title and space for page links, by id for page URLs
+ * @typedef {Object} LinkedPage
+ * @property {string} [id]
+ * @property {string} [title]
+ * @property {string} [spaceKey]
+ */
+
+/**
+ * @typedef {Object} PulledAttachment
+ * @property {string} filename Name of the page attachment
+ * @property {string} target Path the note embeds it by
+ */
+
+/**
+ * @typedef {Object} StorageContext
+ * @property {PulledAttachment[]} attachments
+ * @property {string[]} mermaidBlocks
+ * @property {string[]} mathFormulas
+ * @property {import('./markdown2confluence').MathMacros} mathMacros
+ * @property {(string | null)[]} footnoteLabels Labels of the local note's
+ *   footnotes by number, null for inline ones
+ * @property {string[]} dataviewQueries Query blocks, in order, to put back in
+ *   place of their snapshot panels
+ * @property {Map<string, string>} embedTargets Attachment filename -> path the
+ *   local note embeds it by
+ * @property {Map<string, string>} headings Anchor -> heading of the local
+ *   note, for links within the page
+ * @property {PullOptions['resolvePageLink']} resolvePageLink
+ */
+
+// Title of the info panels holding the results of dataview queries
+export const DATAVIEW_SNAPSHOT_TITLE = 'Dataview snapshot';
+
+// 500 is the width we publish images with when there is no size hint
+const DEFAULT_IMAGE_WIDTH = '500';
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+/**
+ * @param {string} storage
+ * @param {PullOptions} [options]
+ * @returns {{ markdown: string, attachments: PulledAttachment[] }}
+ */
+export function convertConfluenceToMarkdown(storage, options = {}) {
+  const context = createContext(options);
+
+  // The HTML parser copes with storage format once CDATA sections and
+  // self-closing tags are expanded
+  const html = storage
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_match, text) =>
+      text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;'),
+    )
+    .replace(/<((?:ac|ri):[\w-]+)([^>]*?)\s*\/>/g, '<$1$2></$1>');
+
+  const doc = new DOMParser().parseFromString(
+    `<body>${html}</body>`,
+    'text/html',
+  );
+  const markdown = convertBlocks(doc.body, context)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { markdown: `${markdown}\n`, attachments: context.attachments };
+}
+
+/**
+ * Markdown of HTML rendered by Obsidian, e.g. the output of a dataviewjs block
+ * @param {Element} element
+ * @returns {string}
+ */
+export function convertHtmlToMarkdown(element) {
+  return convertBlocks(element, createContext({}));
+}
+
+/**
+ * @param {PullOptions} options
+ * @returns {StorageContext}
+ */
+function createContext(options) {
+  const localMarkdown = options.localMarkdown || '';
+  return {
+    attachments: [],
+    mermaidBlocks: collectMermaidDiagrams(localMarkdown).map(
+      (diagram) => `\`\`\`mermaid\n${diagram.code}\n\`\`\``,
+    ),
+    mathFormulas: collectMath(localMarkdown).map((formula) =>
+      formula.display ? `$$${formula.tex}$$` : `$${formula.tex}$`,
+    ),
+    mathMacros: options.mathMacros || DEFAULT_MATH_MACROS,
+    footnoteLabels: collectFootnotes(localMarkdown),
+    dataviewQueries: collectDataviewQueries(localMarkdown).map(
+      (query) => `\`\`\`${query.language}\n${query.source}\`\`\``,
+    ),
+    embedTargets: new Map(
+      collectEmbeds(localMarkdown)
+        .filter((embed) => embed.type !== 'note')
+        .map((embed) => [embed.filename, embed.target]),
+    ),
+    headings: new Map(
+      Array.from(localMarkdown.matchAll(/^#{1,6}[ \t]+(.+?)[ \t#]*$/gm), (match) => [
+        toConfluenceAnchor(match[1]),
+        match[1],
+      ]),
+    ),
+    resolvePageLink: options.resolvePageLink,
+  };
+}
+
+/**
+ * @param {Element} parent
+ * @param {StorageContext} context
+ * @returns {string}
+ */
+function convertBlocks(parent, context) {
+  const blocks = [];
+  let inline = '';
+
+  const flushInline = () => {
+    if (inline.trim()) {
+      blocks.push(escapeLineStarts(inline.trim()));
+    }
+    inline = '';
+  };
+
+  parent.childNodes.forEach((node) => {
+    const block = convertBlock(node, context);
+    if (block === null) {
+      inline += convertInline(node, context);
+    } else {
+      flushInline();
+      if (block.trim()) {
+        blocks.push(block.trimEnd());
+      }
+    }
+  });
+  flushInline();
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Markdown of a block element, or null for inline content
+ * @param {Node} node
+ * @param {StorageContext} context
+ * @returns {string | null}
+ */
+function convertBlock(node, context) {
+  if (node.nodeType !== ELEMENT_NODE) {
+    return null;
+  }
+
+  const element = /** @type {Element} */ (node);
+  const tag = element.tagName.toLowerCase();
+
+  switch (tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      return `${'#'.repeat(Number(tag[1]))} ${convertInlineChildren(element, context).trim()}`;
+    case 'p':
+      return escapeLineStarts(convertInlineChildren(element, context).trim());
+    case 'div':
+    case 'ac:layout':
+    case 'ac:layout-section':
+    case 'ac:layout-cell':
+      return convertBlocks(element, context);
+    case 'ul':
+      return convertList(element, context, false);
+    case 'ol':
+      return isFootnoteList(element)
+        ? convertFootnotes(element, context)
+        : convertList(element, context, true);
+    case 'ac:task-list':
+      return convertTaskList(element, context);
+    case 'table':
+      return convertTable(element, context);
+    case 'blockquote':
+      return prefixLines(convertBlocks(element, context), '> ');
+    case 'pre':
+      return `\`\`\`\n${(element.textContent || '').replace(/\n$/, '')}\n\`\`\``;
+    case 'hr': {
+      // The rule published above the footnotes
+      const next = element.nextElementSibling;
+      return next && isFootnoteList(next) ? '' : '---';
+    }
+    case 'ac:structured-macro':
+      return convertMacro(element, context);
+    default:
+      return null;
+  }
+}
+
+/**
+ * @param {Element} element
+ * @param {StorageContext} context
+ * @returns {string}
+ */
+function convertInlineChildren(element, context) {
+  let result = '';
+  element.childNodes.forEach((node) => {
+    result += convertInline(node, context);
+  });
+  return result;
+}
+
+/**
+ * @param {Node} node
+ * @param {StorageContext} context
+ * @returns {string}
+ */
+function convertInline(node, context) {
+  if (node.nodeType === TEXT_NODE) {
+    return escapeText((node.textContent || '').replace(/[\s\u00a0]+/g, ' '));
+  }
+
+  if (node.nodeType !== ELEMENT_NODE) {
+    return '';
+  }
+
+  const element = /** @type {Element} */ (node);
+  const inner = () => convertInlineChildren(element, context);
+
+  switch (element.tagName.toLowerCase()) {
+    case 'strong':
+    case 'b':
+      return wrapInline(inner(), '**');
+    case 'em':
+    case 'i':
+      return wrapInline(inner(), '*');
+    case 's':
+    case 'del':
+      return wrapInline(inner(), '~~');
+    case 'span':
+      return /background-color/.test(element.getAttribute('style') || '')
+        ? wrapInline(inner(), '==')
+        : inner();
+    case 'code':
+      return `\`${element.textContent || ''}\``;
+    case 'br':
+      return '\n';
+    case 'a': {
+      const href = element.getAttribute('href') || '';
+      // Links to notes and tags in HTML rendered by Obsidian
+      const linkPath = element.classList.contains('internal-link')
+        ? element.getAttribute('data-href')
+        : null;
+      if (linkPath) {
+        const text = (element.textContent || '').trim();
+        return text && text !== linkPath
+          ? `[[${linkPath}|${text}]]`
+          : `[[${linkPath}]]`;
+      }
+      if (element.classList.contains('tag')) {
+        return element.textContent || '';
+      }
+      // Page URLs, as links to notes were published before they became page links
+      const pageId = href.match(/\/pages\/(\d+)|[?&]pageId=(\d+)/);
+      const hash = href.split('#')[1] || '';
+      const target =
+        pageId && context.resolvePageLink
+          ? context.resolvePageLink(
+              { id: pageId[1] || pageId[2] },
+              decodeURIComponent(hash),
+            )
+          : null;
+      if (target) {
+        return renderWikiLink(target, (element.textContent || '').trim());
+      }
+      const text = inner().trim();
+      return href ? `[${text || escapeText(href)}](${href})` : text;
+    }
+    case 'ac:link':
+      return convertLink(element, context);
+    case 'ac:image':
+      return convertImage(element, context);
+    case 'ac:structured-macro':
+      if (element.getAttribute('ac:name') === 'status') {
+        return escapeText(getParameter(element, 'title'));
+      }
+      return convertMacro(element, context);
+    case 'time':
+      return element.getAttribute('datetime') || '';
+    case 'ac:emoticon':
+    case 'ac:parameter':
+    case 'ri:user':
+      return '';
+    default:
+      return inner();
+  }
+}
+
+/**
+ * @param {Element} list
+ * @param {StorageContext} context
+ * @param {boolean} ordered
+ * @returns {string}
+ */
+function convertList(list, context, ordered) {
+  const items = [];
+  let index = 1;
+
+  Array.from(list.children).forEach((item) => {
+    if (item.tagName.toLowerCase() !== 'li') return;
+
+    // Task items in HTML rendered by Obsidian
+    const checkbox = item.classList.contains('task-list-item')
+      ? /** @type {HTMLInputElement | null} */ (
+          item.querySelector('input[type="checkbox"]')
+        )
+      : null;
+    const marker = checkbox
+      ? `- [${checkbox.checked ? 'x' : ' '}] `
+      : ordered
+        ? `${index++}. `
+        : '- ';
+    const content = convertBlocks(item, context);
+    items.push(indentListItem(marker, content));
+  });
+
+  return items.join('\n');
+}
+
+/**
+ * Whether a list is the footnotes, whose items start with an `fn-N` anchor
+ * @param {Element} list
+ * @returns {boolean}
+ */
+function isFootnoteList(list) {
+  const items = Array.from(list.children);
+  return (
+    items.length > 0 &&
+    items.every((item) => getFootnoteNumber(item.firstElementChild) !== null)
+  );
+}
+
+/**
+ * Number of the footnote an `fn-N` anchor macro marks
+ * @param {Element | null} element
+ * @returns {number | null}
+ */
+function getFootnoteNumber(element) {
+  if (
+    !element ||
+    element.tagName.toLowerCase() !== 'ac:structured-macro' ||
+    element.getAttribute('ac:name') !== 'anchor'
+  ) {
+    return null;
+  }
+  const match = getParameter(element, '').match(/^fn-(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * `[^label]: text` definitions, with the lines after the first indented
+ * @param {Element} list
+ * @param {StorageContext} context
+ * @returns {string}
+ */
+function convertFootnotes(list, context) {
+  return Array.from(list.children)
+    .map((item) => {
+      const number = getFootnoteNumber(item.firstElementChild) || 0;
+      return convertBlocks(item, context)
+        .replace(/\n\n+/g, '\n')
+        .split('\n')
+        .map((line, index) =>
+          index === 0
+            ? `[^${getFootnoteLabel(number, context)}]: ${line}`
+            : `  ${line}`,
+        )
+        .join('\n');
+    })
+    .join('\n');
+}
+
+/**
+ * Label the local note gives a footnote, or its number
+ * @param {number} number
+ * @param {StorageContext} context
+ * @returns {string}
+ */
+function getFootnoteLabel(number, context) {
+  return context.footnoteLabels[number - 1] || String(number);
+}
+
+/**
+ * @param {Element} list
+ * @param {StorageContext} context
+ * @returns {string}
+ */
+function convertTaskList(list, context) {
+  const tasks = [];
+
+  Array.from(list.children).forEach((task) => {
+    if (task.tagName.toLowerCase() !== 'ac:task') return;
+
+    const status = findChild(task, 'ac:task-status');
+    const body = findChild(task, 'ac:task-body');
+    const isChecked = (status && status.textContent || '').trim() === 'complete';
+    const content = body ? convertBlocks(body, context) : '';
+    tasks.push(indentListItem(`- [${isChecked ? 'x' : ' '}] `, content));
+  });
+
+  return tasks.join('\n');
+}
+
+/**
+ * @param {string} marker
+ * @param {string} content
+ * @returns {string}
+ */
+function indentListItem(marker, content) {
+  const indent = ' '.repeat(marker.length);
+  return content
+    .replace(/\n\n+/g, '\n')
+    .split('\n')
+    .map((line, index) => {
+      if (index === 0) return `${marker}${line}`;
+      return line ? `${indent}${line}` : line;
+    })
+    .join('\n');
+}
+
+/**
+ * @param {Element} table
+ * @param {StorageContext} context
+ * @returns {string}
+ */
+function convertTable(table, context) {
+  const rows = Array.from(table.querySelectorAll('tr')).map((row) =>
+    Array.from(row.children)
+      .filter((cell) => ['th', 'td'].includes(cell.tagName.toLowerCase()))
+      .map((cell) =>
+        convertBlocks(cell, context)
+          .replace(/\n+/g, '<br>')
+          .replace(/\|/g, '\\|'),
+      ),
+  );
+
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const width = Math.max(...rows.map((row) => row.length));
+  const formatRow = (row) => {
+    const cells = [...row];
+    while (cells.length < width) cells.push('');
+    return `| ${cells.join(' | ')} |`;
+  };
+
+  return [
+    formatRow(rows[0]),
+    formatRow(new Array(width).fill('---')),
+    ...rows.slice(1).map(formatRow),
+  ].join('\n');
+}
+
+/**
+ * @param {Element} macro
+ * @param {StorageContext} context
+ * @returns {string}
+ */
+function convertMacro(macro, context) {
+  const name = macro.getAttribute('ac:name') || '';
+  const body = findChild(macro, 'ac:rich-text-body');
+
+  if (name === 'code' || name === 'noformat') {
+    const code = findChild(macro, 'ac:plain-text-body');
+    const language = getParameter(macro, 'language');
+    const lang = language && language !== 'none' ? language : '';
+    return `\`\`\`${lang}\n${(code && code.textContent || '').replace(/\n$/, '')}\n\`\`\``;
+  }
+
+  if (name === context.mathMacros.block) {
+    const body = findChild(macro, 'ac:plain-text-body');
+    const tex = (body && body.textContent || '').trim();
+    // Formulas of several lines go on lines of their own
+    return tex.includes('\n') ? `$$\n${tex}\n$$` : `$$${tex}$$`;
+  }
+
+  if (name === context.mathMacros.inline) {
+    return `$${getParameter(macro, 'body')}$`;
+  }
+
+  // Published notes embedded with the include macro
+  if (name === 'include') {
+    const page = macro.getElementsByTagName('ri:page')[0];
+    const title = page ? page.getAttribute('ri:content-title') || '' : '';
+    return title ? `![[${title}]]` : '';
+  }
+
+  if (['view-file', 'multimedia', 'viewpdf'].includes(name)) {
+    const nameParam = Array.from(macro.children).find(
+      (child) =>
+        child.tagName.toLowerCase() === 'ac:parameter' &&
+        child.getAttribute('ac:name') === 'name',
+    );
+    const attachment = nameParam ? findChild(nameParam, 'ri:attachment') : null;
+    const filename = attachment ? attachment.getAttribute('ri:filename') || '' : '';
+    if (!filename) return '';
+
+    const width = getParameter(macro, 'width');
+    return `![[${addAttachment(filename, context)}${width ? `|${width}` : ''}]]`;
+  }
+
+  if (['info', 'note', 'warning', 'tip', 'expand'].includes(name)) {
+    const title = getParameter(macro, 'title');
+    if (
+      name === 'info' &&
+      title === DATAVIEW_SNAPSHOT_TITLE &&
+      context.dataviewQueries.length > 0
+    ) {
+      return context.dataviewQueries.shift() || '';
+    }
+
+    const content = body ? convertBlocks(body, context) : '';
+    // Expand macros come from folded callouts
+    const marker = name === 'expand' ? '[!note]-' : `[!${name}]`;
+    return prefixLines(`${marker}${title ? ` ${title}` : ''}\n${content}`, '> ');
+  }
+
+  return body ? convertBlocks(body, context) : '';
+}
+
+/**
+ * @param {Element} link
+ * @param {StorageContext} context
+ * @returns {string}
+ */
+function convertLink(link, context) {
+  const page = findChild(link, 'ri:page');
+  const attachment = findChild(link, 'ri:attachment');
+  const linkBody =
+    findChild(link, 'ac:plain-text-link-body') || findChild(link, 'ac:link-body');
+  const anchor = link.getAttribute('ac:anchor');
+  const text = (linkBody && linkBody.textContent || '').trim();
+
+  let target = '';
+  if (page) {
+    const title = page.getAttribute('ri:content-title') || '';
+    const spaceKey = page.getAttribute('ri:space-key') || '';
+    target =
+      (title &&
+        context.resolvePageLink &&
+        context.resolvePageLink({ title, spaceKey }, anchor || '')) ||
+      `${title}${anchor ? `#${anchor}` : ''}`;
+  } else if (attachment) {
+    const filename = attachment.getAttribute('ri:filename') || '';
+    target = filename ? addAttachment(filename, context) : '';
+    if (target && anchor) target += `#${anchor}`;
+  } else if (anchor) {
+    // Footnote references, and the links back from the footnotes
+    const footnote = anchor.match(/^fn(ref)?-(\d+)$/);
+    if (footnote) {
+      return footnote[1] ? '' : `[^${getFootnoteLabel(Number(footnote[2]), context)}]`;
+    }
+    target = `#${context.headings.get(anchor) || anchor}`;
+  }
+
+  if (!target) {
+    return escapeText(text);
+  }
+
+  return renderWikiLink(target, text);
+}
+
+/**
+ * `[[target|text]]`, without the alias when the text is the one published for
+ * a link without one: the note name, and the heading after ` > `
+ * @param {string} target
+ * @param {string} text
+ * @returns {string}
+ */
+function renderWikiLink(target, text) {
+  const [path, ...subpaths] = target.split('#');
+  const defaultText = [
+    path.split('/').pop() || '',
+    subpaths.length ? subpaths[subpaths.length - 1] : '',
+  ]
+    .filter((part) => part)
+    .join(' > ');
+  return text && text !== target && text !== defaultText
+    ? `[[${target}|${text}]]`
+    : `[[${target}]]`;
+}
+
+/**
+ * @param {Element} image
+ * @param {StorageContext} context
+ * @returns {string}
+ */
+function convertImage(image, context) {
+  const attachment = findChild(image, 'ri:attachment');
+  const url = findChild(image, 'ri:url');
+
+  if (attachment) {
+    const filename = attachment.getAttribute('ri:filename') || '';
+    const mermaidMatch = filename.match(/^MERMAID-PLACEHOLDER-(\d+)\.svg$/);
+    const mermaidBlock = mermaidMatch
+      ? context.mermaidBlocks[Number(mermaidMatch[1])]
+      : undefined;
+    if (mermaidBlock) {
+      return mermaidBlock;
+    }
+
+    const mathMatch = filename.match(/^MATH-PLACEHOLDER-(\d+)\.svg$/);
+    const formula = mathMatch
+      ? context.mathFormulas[Number(mathMatch[1])]
+      : undefined;
+    if (formula) {
+      return formula;
+    }
+
+    const width = image.getAttribute('ac:width');
+    const size = width && width !== DEFAULT_IMAGE_WIDTH ? `|${width}` : '';
+    return `![[${addAttachment(filename, context)}${size}]]`;
+  }
+
+  if (url) {
+    return `![](${url.getAttribute('ri:value') || ''})`;
+  }
+
+  return '';
+}
+
+/**
+ * Records an attachment to download and returns the path to embed it by:
+ * the one the local note uses, or the filename for attachments added in
+ * Confluence.
+ * @param {string} filename
+ * @param {StorageContext} context
+ * @returns {string}
+ */
+function addAttachment(filename, context) {
+  const target = context.embedTargets.get(filename) || filename;
+  if (!context.attachments.some((attachment) => attachment.filename === filename)) {
+    context.attachments.push({ filename, target });
+  }
+  return target;
+}
+
+/**
+ * @param {Element} element
+ * @param {string} tag
+ * @returns {Element | null}
+ */
+function findChild(element, tag) {
+  return (
+    Array.from(element.children).find(
+      (child) => child.tagName.toLowerCase() === tag,
+    ) || null
+  );
+}
+
+/**
+ * @param {Element} macro
+ * @param {string} name
+ * @returns {string}
+ */
+function getParameter(macro, name) {
+  const parameter = Array.from(macro.children).find(
+    (child) =>
+      child.tagName.toLowerCase() === 'ac:parameter' &&
+      child.getAttribute('ac:name') === name,
+  );
+  return (parameter && parameter.textContent || '').trim();
+}
+
+/**
+ * Backslash-escapes the characters that would turn plain Confluence text into
+ * markdown formatting, links, tags, math or HTML
+ * @param {string} text
+ * @returns {string}
+ */
+function escapeText(text) {
+  return text
+    .replace(/[\\*`[$<]/g, '\\$&')
+    .replace(/#(?=\S)/g, '\\#')
+    .replace(/(?<![\p{L}\p{N}])_|_(?![\p{L}\p{N}])/gu, '\\_')
+    .replace(/~~/g, '\\~\\~')
+    .replace(/==/g, '\\=\\=');
+}
+
+/**
+ * Escapes text at the start of a line that would be read as a heading, list
+ * item or quote
+ * @param {string} text
+ * @returns {string}
+ */
+function escapeLineStarts(text) {
+  return text
+    .replace(/^([-+>#])(?=\s|$)/gm, '\\$1')
+    .replace(/^(\d+)([.)])(?=\s|$)/gm, '$1\\$2');
+}
+
+/**
+ * @param {string} text
+ * @param {string} marker
+ * @returns {string}
+ */
+function wrapInline(text, marker) {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) {
+    return text;
+  }
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
+
+/**
+ * @param {string} text
+ * @param {string} prefix
+ * @returns {string}
+ */
+function prefixLines(text, prefix) {
+  return text
+    .split('\n')
+    .map((line) => (line ? `${prefix}${line}` : prefix.trimEnd()))
+    .join('\n');
+}
@@ -0,0 +1,176 @@
+import {
+  App,
+  Platform,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+} from 'obsidian';
+
+/**
+ * Keeps the Confluence token out of data.json, which ends up in vault
+ * backups and git.
+ *
+ * The desktop app encrypts the token with the OS keychain through Electron's
+ * safeStorage. That ciphertext only decrypts on this machine, so it is kept in
+ * the app's local storage rather than in the vault. Where there is no keychain
+ * the token is encrypted with a passphrase into a file in the plugin folder.
+ */
+
+export type TokenStorage = 'keychain' | 'passphrase';
+
+interface EncryptedToken {
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+interface SafeStorage {
+  isEncryptionAvailable(): boolean;
+  encryptString(plainText: string): Buffer;
+  decryptString(encrypted: Buffer): string;
+}
+
+// The parts of Electron the desktop app exposes to plugins that are used here
+interface ElectronModule {
+  remote?: {
+    safeStorage?: SafeStorage;
+  };
+}
+
+declare global {
+  interface Window {
+    require?: (module: 'electron') => ElectronModule;
+  }
+}
+
+const KEYCHAIN_KEY = 'confluence-sync-token';
+const PBKDF2_ITERATIONS = 310000;
+
+export class CredentialStore {
+  app: App;
+  path: string;
+
+  constructor(app: App, pluginDir: string) {
+    this.app = app;
+    this.path = `${pluginDir}/credentials.json`;
+  }
+
+  get safeStorage(): SafeStorage | null {
+    if (!Platform.isDesktopApp) return null;
+
+    try {
+      const safeStorage = window.require?.('electron').remote?.safeStorage;
+      return safeStorage?.isEncryptionAvailable() ? safeStorage : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  get keychainAvailable(): boolean {
+    return !!this.safeStorage;
+  }
+
+  async getStorage(): Promise<TokenStorage | null> {
+    if (this.app.loadLocalStorage(KEYCHAIN_KEY)) return 'keychain';
+    return (await this.app.vault.adapter.exists(this.path))
+      ? 'passphrase'
+      : null;
+  }
+
+  async saveToKeychain(token: string) {
+    const safeStorage = this.safeStorage;
+    if (!safeStorage) {
+      throw new Error('The system keychain is not available');
+    }
+
+    this.app.saveLocalStorage(
+      KEYCHAIN_KEY,
+      safeStorage.encryptString(token).toString('base64'),
+    );
+    await this.removeFile();
+  }
+
+  loadFromKeychain(): string | null {
+    const stored: string | null = this.app.loadLocalStorage(KEYCHAIN_KEY);
+    const safeStorage = this.safeStorage;
+    if (!stored || !safeStorage) return null;
+
+    try {
+      return safeStorage.decryptString(Buffer.from(stored, 'base64'));
+    } catch (error) {
+      console.error('Could not decrypt the Confluence token:', error);
+      return null;
+    }
+  }
+
+  async saveWithPassphrase(token: string, passphrase: string) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await this.deriveKey(passphrase, salt);
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      new TextEncoder().encode(token),
+    );
+
+    const encrypted: EncryptedToken = {
+      salt: arrayBufferToBase64(salt.buffer),
+      iv: arrayBufferToBase64(iv.buffer),
+      data: arrayBufferToBase64(data),
+    };
+    await this.app.vault.adapter.write(this.path, JSON.stringify(encrypted));
+    this.app.saveLocalStorage(KEYCHAIN_KEY, null);
+  }
+
+  async loadWithPassphrase(passphrase: string): Promise<string> {
+    const encrypted: EncryptedToken = JSON.parse(
+      await this.app.vault.adapter.read(this.path),
+    );
+    const key = await this.deriveKey(
+      passphrase,
+      new Uint8Array(base64ToArrayBuffer(encrypted.salt)),
+    );
+
+    try {
+      const data = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: new Uint8Array(base64ToArrayBuffer(encrypted.iv)),
+        },
+        key,
+        base64ToArrayBuffer(encrypted.data),
+      );
+      return new TextDecoder().decode(data);
+    } catch (error) {
+      // AES-GCM fails its integrity check when the key is wrong
+      throw new Error('Wrong passphrase');
+    }
+  }
+
+  async clear() {
+    this.app.saveLocalStorage(KEYCHAIN_KEY, null);
+    await this.removeFile();
+  }
+
+  async removeFile() {
+    if (await this.app.vault.adapter.exists(this.path)) {
+      await this.app.vault.adapter.remove(this.path);
+    }
+  }
+
+  async deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey'],
+    );
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt'],
+    );
+  }
+}
@@ -1,45 +1,297 @@
 import {
   App,
+  Component,
+  FuzzySuggestModal,
+  ItemView,
+  MarkdownRenderer,
+  Modal,
   Notice,
   Plugin,
   PluginSettingTab,
   Setting,
+  TAbstractFile,
   TFile,
+  TFolder,
+  WorkspaceLeaf,
+  debounce,
+  loadMermaid,
+  parseYaml,
   requestUrl,
 } from 'obsidian';
+import {
+  ConfluenceAttachment,
+  ConfluenceClient,
+  ConfluenceComment,
+  ConfluencePage,
+} from './confluence-api';
+import {
+  DATAVIEW_SNAPSHOT_TITLE,
+  LinkedPage,
+  PulledAttachment,
+  convertConfluenceToMarkdown as confluenceToMarkdown,
+  convertHtmlToMarkdown,
+} from './confluence2markdown';
+import { CredentialStore, TokenStorage } from './credentials';
+import {
+  PageRef,
+  collectDataviewQueries,
+  collectEmbeds,
+  collectIssues,
+  collectMermaidDiagrams,
+  collectTags,
+  convertMarkdownToConfluence as markdownToConfluence,
+  toConfluenceAnchor,
+} from './markdown2confluence';
 
 interface ConfluenceSyncSettings {
+  deployment: 'cloud' | 'datacenter';
   domain: string;
   username: string;
-  apiToken: string;
   spaceId: string;
   attachmentsFolder: string;
   addConfluenceUrl: boolean;
+  syncedNotes: Record<string, SyncedNote>;
+  syncQueue: SyncQueue | null;
+  syncLog: SyncLogEntry[];
+  autoPublish: boolean;
+  // Seconds a note has to be left alone before it is published
+  autoPublishDelay: number;
+  autoPublishFolders: string[];
+  // Notes waiting to be published, kept while offline
+  autoPublishQueue: string[];
+  unpublishedLinks: 'plain' | 'publish';
+  noteEmbeds: 'expand' | 'include';
+  commentsSection: boolean;
+  mermaidRenderer: 'local' | 'kroki';
+  krokiUrl: string;
+  mathInlineMacro: string;
+  mathBlockMacro: string;
+  minorEdits: boolean;
+  promptForVersionComment: boolean;
+  tagLabels: Record<string, string>;
+  folderMappings: FolderMapping[];
+  rootPageId: string;
+  folderMode: 'mirror' | 'flatten';
+  folderPrefixPattern: string;
+  // Pages the plugin created; only these are ever moved to another parent
+  createdPageIds: string[];
+  // The folder pages among them; only these are taken over for a folder
+  folderPageIds: string[];
+}
+
+interface FolderMapping {
+  folder: string;
+  parentId: string;
+}
+
+interface SyncQueue {
+  folder: string;
+  pending: string[];
+}
+
+interface SyncLogEntry {
+  time: number;
+  path: string;
+  action: 'sync' | 'pull';
+  pageId?: string;
+  error?: string;
+}
+
+interface SyncOptions {
+  interactive?: boolean;
+  folderCache?: Map<string, string | null>;
+  publishing?: Set<string>;
 }
 
-interface ConfluencePage {
-  id: string;
+interface PageOptions {
   title: string;
-  type: string;
-  version: {
-    number: number;
-  };
-  ancestors?: ConfluencePage[];
+  spaceKey: string;
+  // Page to publish under, and folder pages to create between it and the note
+  parentId: string | null;
+  folderPath: string[];
+  labels: string[];
+}
+
+interface PublishOptions {
+  minorEdit?: boolean;
+  versionComment?: string;
+}
+
+interface PlannedPage {
+  title: string;
+  action: 'create' | 'update' | 'move' | 'unchanged' | 'archived' | 'taken';
+}
+
+interface PagePreview {
+  title: string;
+  spaceKey: string;
+  storage: string;
+  markdown: string;
+  issues: { line?: number; message: string }[];
+}
+
+interface SyncedNote {
+  pageId: string;
+  version: number;
+  hash: string;
+  syncedAt?: number;
+  // Labels the plugin applied, so labels added in Confluence are left alone
+  labels?: string[];
+}
+
+type ConflictResolution = 'overwrite' | 'pull' | 'cancel';
+
+interface ConflictDetails {
+  title: string;
+  localMarkdown: string;
+  remoteMarkdown: string;
+  syncedVersion: number;
+  remoteVersion: number;
+  localChanged: boolean;
+}
+
+// Attachments uploaded by the plugin carry a hash of their bytes in the
+// attachment comment, so unchanged files can be skipped on the next sync
+const ATTACHMENT_HASH_PREFIX = 'obsidian-sync sha256:';
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  csv: 'text/csv',
+  txt: 'text/plain',
+  zip: 'application/zip',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+  ogv: 'video/ogg',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  flac: 'audio/flac',
+};
+
+// The parts of the Dataview plugin's API used to run queries
+interface DataviewApi {
+  queryMarkdown(
+    source: string,
+    originFile: string,
+  ): Promise<
+    { successful: true; value: string } | { successful: false; error: string }
+  >;
+  executeJs(
+    code: string,
+    container: HTMLElement,
+    component: Component,
+    originFile: string,
+  ): Promise<void>;
+}
+
+// Community plugins are not part of the public App type
+interface AppWithPlugins extends App {
+  plugins?: { plugins: { dataview?: { api?: DataviewApi } } };
 }
 
+const PREVIEW_VIEW_TYPE = 'confluence-sync-preview';
+const STATUS_VIEW_TYPE = 'confluence-sync-status';
+const COMMENTS_VIEW_TYPE = 'confluence-sync-comments';
+
+// Heading of the section unresolved comments are pulled into, and the
+// Obsidian comments it is fenced with
+const COMMENTS_HEADING = 'Unresolved Confluence comments';
+const COMMENTS_START = '%% confluence-comments: replaced when comments are pulled %%';
+const COMMENTS_END = '%% /confluence-comments %%';
+
+// Oldest entries are dropped from the sync log past this many
+const SYNC_LOG_LIMIT = 200;
+
+// How often notes left queued while offline are retried
+const AUTO_PUBLISH_RETRY_INTERVAL = 60000;
+
+// Notes embedded deeper than this are published as links
+const MAX_EMBED_DEPTH = 5;
+
+// dataviewjs renders some values asynchronously after the script returns, so
+// its output is read once it has stopped changing for DATAVIEW_SETTLE_TIME,
+// or after DATAVIEW_RENDER_TIMEOUT at the latest
+const DATAVIEW_SETTLE_TIME = 200;
+const DATAVIEW_RENDER_TIMEOUT = 5000;
+
+// A line of nothing but embeds, possibly inside a callout or list item
+const EMBED_LINE = /^(\s*(?:>\s*)*(?:(?:[-*+]|\d+[.)])\s+)?)((?:!\[\[[^\]]+\]\]\s*)+)$/;
+
 const DEFAULT_SETTINGS: ConfluenceSyncSettings = {
+  deployment: 'cloud',
   domain: '',
   username: '',
-  apiToken: '',
   spaceId: '',
   attachmentsFolder: 'attachments',
   addConfluenceUrl: true,
+  syncedNotes: {},
+  syncQueue: null,
+  syncLog: [],
+  autoPublish: false,
+  autoPublishDelay: 30,
+  autoPublishFolders: [],
+  autoPublishQueue: [],
+  unpublishedLinks: 'plain',
+  noteEmbeds: 'expand',
+  commentsSection: false,
+  mermaidRenderer: 'local',
+  krokiUrl: '',
+  mathInlineMacro: 'mathinline',
+  mathBlockMacro: 'mathblock',
+  minorEdits: false,
+  promptForVersionComment: false,
+  tagLabels: {},
+  folderMappings: [],
+  rootPageId: '',
+  folderMode: 'mirror',
+  folderPrefixPattern: '',
+  createdPageIds: [],
+  folderPageIds: [],
 };
 
 export default class ConfluenceSyncPlugin extends Plugin {
   settings: ConfluenceSyncSettings;
+  api = new ConfluenceClient(
+    () => this.settings,
+    () => this.getApiToken(),
+  );
+  credentials: CredentialStore;
+  // The token is only held in memory; tokenStorage says where it is kept
+  apiToken = '';
+  tokenStorage: TokenStorage | null = null;
+  unlocking: Promise<string> | null = null;
+  // A token from an old data.json that has not been moved out yet
+  legacyApiToken = '';
+  isBatchRunning = false;
+  isAutoPublishing = false;
+  // Manual and automatic syncs of single notes run one after the other
+  publishing: Promise<unknown> = Promise.resolve();
+  // Synced notes deleted since the last archive prompt, with their page ids
+  deletedNotes = new Map<string, string>();
+  autoPublishTimers = new Map<string, number>();
 
   async onload() {
+    this.credentials = new CredentialStore(
+      this.app,
+      this.manifest.dir ||
+        `${this.app.vault.configDir}/plugins/${this.manifest.id}`,
+    );
     await this.loadSettings();
 
     this.addCommand({
@@ -48,15 +300,256 @@ export default class ConfluenceSyncPlugin extends Plugin {
       callback: () => this.syncCurrentFile(),
     });
 
+    this.addCommand({
+      id: 'pull-from-confluence',
+      name: 'Pull current file from Confluence',
+      callback: () => this.pullCurrentFile(),
+    });
+
+    this.addCommand({
+      id: 'preview-confluence-output',
+      name: 'Preview Confluence output',
+      callback: () => this.openPreview(),
+    });
+
+    this.addCommand({
+      id: 'sync-vault-subtree',
+      name: 'Sync vault subtree to Confluence',
+      callback: () => {
+        new FolderSuggestModal(this.app, (folder) =>
+          this.syncFolder(folder),
+        ).open();
+      },
+    });
+
+    this.addCommand({
+      id: 'resume-batch-sync',
+      name: 'Resume interrupted Confluence batch sync',
+      checkCallback: (checking) => {
+        if (!this.settings.syncQueue || this.isBatchRunning) return false;
+        if (!checking) this.runSyncQueue();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'open-sync-status',
+      name: 'Open Confluence sync status',
+      callback: () => this.openStatusView(),
+    });
+
+    this.addCommand({
+      id: 'pull-comments',
+      name: 'Pull Confluence comments for current file',
+      callback: () => this.pullCurrentComments(),
+    });
+
+    this.registerView(
+      PREVIEW_VIEW_TYPE,
+      (leaf) => new ConfluencePreviewView(leaf, this),
+    );
+    this.registerView(
+      STATUS_VIEW_TYPE,
+      (leaf) => new ConfluenceStatusView(leaf, this),
+    );
+    this.registerView(
+      COMMENTS_VIEW_TYPE,
+      (leaf) => new ConfluenceCommentsView(leaf, this),
+    );
+
+    this.registerEvent(
+      this.app.workspace.on('file-menu', (menu, file) => {
+        if (!(file instanceof TFolder)) return;
+
+        menu.addItem((item) => {
+          item
+            .setTitle('Sync folder to Confluence')
+            .setIcon('upload-cloud')
+            .onClick(() => this.syncFolder(file));
+        });
+      }),
+    );
+
+    // Keep published pages in step with notes that are moved or deleted
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) =>
+        this.handleRename(file, oldPath),
+      ),
+    );
+    this.registerEvent(
+      this.app.vault.on('delete', (file) => this.handleDelete(file)),
+    );
+
+    // The metadata cache has the note's new frontmatter by the time it fires
+    this.registerEvent(
+      this.app.metadataCache.on('changed', (file) =>
+        this.scheduleAutoPublish(file),
+      ),
+    );
+    this.registerDomEvent(window, 'online', () => this.runAutoPublishQueue());
+    this.registerInterval(
+      window.setInterval(
+        () => this.runAutoPublishQueue(),
+        AUTO_PUBLISH_RETRY_INTERVAL,
+      ),
+    );
+    this.register(() => {
+      this.autoPublishTimers.forEach((timer) => window.clearTimeout(timer));
+      this.autoPublishTimers.clear();
+    });
+
+    this.app.workspace.onLayoutReady(() => {
+      const queue = this.settings.syncQueue;
+      if (queue && queue.pending.length > 0) {
+        new Notice(
+          `Confluence batch sync of "${queue.folder}" was interrupted with ${queue.pending.length} note(s) left. Run "Resume interrupted Confluence batch sync" to continue.`,
+          10000,
+        );
+      }
+      this.runAutoPublishQueue();
+    });
+
     this.addSettingTab(new ConfluenceSyncSettingTab(this.app, this));
   }
 
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    const { apiToken, ...data } = (await this.loadData()) || {};
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+
+    // Versions before createdPageIds only published pages they created, so
+    // the pages of synced notes count as the plugin's own
+    if (!data.createdPageIds) {
+      this.settings.createdPageIds = [
+        ...new Set(
+          Object.values(this.settings.syncedNotes).map((note) => note.pageId),
+        ),
+      ];
+    }
+    // Created pages that belong to no note were created for folders
+    if (!data.folderPageIds) {
+      const notePageIds = new Set(
+        Object.values(this.settings.syncedNotes).map((note) => note.pageId),
+      );
+      this.settings.folderPageIds = this.settings.createdPageIds.filter(
+        (id) => !notePageIds.has(id),
+      );
+    }
+
+    this.tokenStorage = await this.credentials.getStorage();
+    if (this.tokenStorage === 'keychain') {
+      this.apiToken = this.credentials.loadFromKeychain() || '';
+    }
+
+    // Earlier versions saved the token in data.json
+    if (apiToken) {
+      await this.migrateApiToken(apiToken);
+    }
   }
 
   async saveSettings() {
-    await this.saveData(this.settings);
+    await this.saveData(
+      this.legacyApiToken
+        ? { ...this.settings, apiToken: this.legacyApiToken }
+        : this.settings,
+    );
+  }
+
+  async migrateApiToken(token: string) {
+    this.apiToken = token;
+    this.legacyApiToken = token;
+
+    if (this.credentials.keychainAvailable) {
+      await this.storeApiToken(token);
+      return;
+    }
+
+    // Without a keychain the token needs a passphrase. It stays in data.json
+    // until one is chosen, rather than being lost.
+    this.app.workspace.onLayoutReady(async () => {
+      if (!(await this.storeApiToken(token))) {
+        new Notice(
+          'Your Confluence token is still saved unencrypted in data.json. Save it again in the Confluence Sync settings to encrypt it.',
+          10000,
+        );
+      }
+    });
+  }
+
+  async storeApiToken(token: string): Promise<boolean> {
+    if (this.credentials.keychainAvailable) {
+      await this.credentials.saveToKeychain(token);
+      this.tokenStorage = 'keychain';
+    } else {
+      const passphrase = await this.promptPassphrase(
+        'Encrypt Confluence token',
+        'There is no system keychain here, so the token is encrypted with a passphrase. You are asked for it once per session.',
+      );
+      if (!passphrase) return false;
+
+      await this.credentials.saveWithPassphrase(token, passphrase);
+      this.tokenStorage = 'passphrase';
+    }
+
+    this.apiToken = token;
+    this.legacyApiToken = '';
+    await this.saveSettings();
+    return true;
+  }
+
+  async forgetApiToken() {
+    await this.credentials.clear();
+    this.apiToken = '';
+    this.tokenStorage = null;
+    this.legacyApiToken = '';
+    await this.saveSettings();
+  }
+
+  async getApiToken(): Promise<string> {
+    if (this.apiToken || this.tokenStorage !== 'passphrase') {
+      return this.apiToken;
+    }
+
+    // Requests made while the prompt is open wait for the same unlock
+    if (!this.unlocking) {
+      this.unlocking = this.unlockApiToken().finally(() => {
+        this.unlocking = null;
+      });
+    }
+    return this.unlocking;
+  }
+
+  async unlockApiToken(): Promise<string> {
+    for (;;) {
+      const passphrase = await this.promptPassphrase(
+        'Unlock Confluence token',
+        'Enter the passphrase your Confluence token was encrypted with',
+      );
+      if (passphrase === null) {
+        throw new Error('The Confluence token is locked');
+      }
+
+      try {
+        this.apiToken = await this.credentials.loadWithPassphrase(passphrase);
+        // Notes saved while the token was locked are waiting to be published
+        this.runAutoPublishQueue();
+        return this.apiToken;
+      } catch (error) {
+        new Notice(error.message);
+      }
+    }
+  }
+
+  get isTokenLocked(): boolean {
+    return !this.apiToken && this.tokenStorage === 'passphrase';
+  }
+
+  promptPassphrase(
+    title: string,
+    description: string,
+  ): Promise<string | null> {
+    return new Promise((resolve) => {
+      new PassphraseModal(this.app, title, description, resolve).open();
+    });
   }
 
   async syncCurrentFile() {
@@ -67,313 +560,1622 @@ export default class ConfluenceSyncPlugin extends Plugin {
       return;
     }
 
+    await this.syncNote(activeFile);
+  }
+
+  async syncNote(file: TFile) {
     if (!this.validateSettings()) {
       new Notice('Please configure Confluence settings first');
       return;
     }
 
     try {
-      new Notice('Syncing to Confluence...');
-      const content = await this.app.vault.read(activeFile);
-      const title = activeFile.basename;
-      const folderPath = this.getFolderPath(activeFile);
-
-      // Parse frontmatter to separate it from the body content
-      const { body } = this.parseFrontmatter(content);
-
-      // Ensure we have content to upload
-      const contentToUpload = body.trim() || '<p>Empty document</p>';
-
-      // Upload to Confluence (only the body, not frontmatter)
-      const page = await this.uploadToConfluence(
-        title,
-        contentToUpload,
-        folderPath,
+      const page = await this.runExclusive(() =>
+        this.syncFile(file, { interactive: true }),
       );
-
-      // If setting is enabled, add Confluence URL to frontmatter
-      if (this.settings.addConfluenceUrl) {
-        const domain = this.settings.domain.replace(/\/$/, '');
-        const confluenceUrl = `${domain}/wiki/spaces/${this.settings.spaceId}/pages/${page.id}`;
-        const updatedContent = this.updateFrontmatter(content, confluenceUrl);
-        await this.app.vault.modify(activeFile, updatedContent);
+      if (page) {
+        new Notice('Successfully synced to Confluence!');
       }
-
-      new Notice('Successfully synced to Confluence!');
     } catch (error) {
       console.error('Error syncing to Confluence:', error);
       new Notice(`Failed to sync: ${error.message}`);
     }
   }
 
-  getFolderPath(file: TFile): string[] {
-    const parts = file.parent?.path.split('/').filter((p) => p) || [];
-    return parts;
+  async syncFile(
+    file: TFile,
+    options: SyncOptions = {},
+  ): Promise<ConfluencePage | null> {
+    try {
+      const page = await this.publishNote(file, options);
+      if (page) {
+        await this.logSync({
+          path: file.path,
+          action: 'sync',
+          pageId: page.id,
+        });
+      }
+      return page;
+    } catch (error) {
+      await this.logSync({
+        path: file.path,
+        action: 'sync',
+        error: error.message,
+      });
+      throw error;
+    }
   }
 
-  validateSettings(): boolean {
-    return !!(
-      this.settings.domain &&
-      this.settings.username &&
-      this.settings.apiToken &&
-      this.settings.spaceId
+  async publishNote(
+    file: TFile,
+    options: SyncOptions,
+  ): Promise<ConfluencePage | null> {
+    const content = await this.app.vault.read(file);
+
+    // Parse frontmatter to separate it from the body content
+    const { frontmatter, body } = this.parseFrontmatter(content);
+    const hash = await this.hashContent(body);
+
+    if (frontmatter['confluence-skip'] === true) {
+      if (options.interactive) {
+        new Notice('This note has confluence-skip set and is not published');
+      }
+      return null;
+    }
+    const pageOptions = this.getPageOptions(file, frontmatter, body);
+
+    // Make sure nobody edited the page in Confluence since our last sync
+    const resolution = await this.checkForConflict(
+      file,
+      body,
+      !!options.interactive,
     );
-  }
+    if (resolution === 'cancel') {
+      new Notice('Sync cancelled');
+      return null;
+    }
+    if (resolution === 'pull') {
+      await this.pullFile(file);
+      return null;
+    }
 
-  parseFrontmatter(content: string): {
-    frontmatter: Map<string, string>;
-    body: string;
-    hasFrontmatter: boolean;
-  } {
-    // const frontmatterRegex = /^---\n([\s\S]*?)\n---\n([\s\S]*)$/;
-    const frontmatterRegex =
-      /^---\s*\r?\n([\s\S]*?)\r?\n---\s*\r?\n?([\s\S]*)$/;
-    const match = content.match(frontmatterRegex);
+    const publish = await this.getPublishOptions(frontmatter, options);
+    if (!publish) {
+      new Notice('Sync cancelled');
+      return null;
+    }
 
-    if (!match) {
-      return { frontmatter: new Map(), body: content, hasFrontmatter: false };
+    if (options.interactive) {
+      new Notice('Syncing to Confluence...');
     }
 
-    const frontmatterText = match[1];
-    const body = match[2];
-    const frontmatter = new Map<string, string>();
-
-    // Parse YAML frontmatter (simple key: value pairs)
-    const lines = frontmatterText.split('\n');
-    for (const line of lines) {
-      const colonIndex = line.indexOf(':');
-      if (colonIndex !== -1) {
-        const key = line.substring(0, colonIndex).trim();
-        const value = line.substring(colonIndex + 1).trim();
-        frontmatter.set(key, value);
+    // Linked notes need a Confluence page before links to them can resolve
+    const unresolvedLinks = await this.publishLinkTargets(file, body, options);
+    if (unresolvedLinks.length > 0) {
+      const warning = `Rendered links as plain text because their notes are not published in Confluence: ${unresolvedLinks.join(', ')}`;
+      console.warn(`${file.path}: ${warning}`);
+      if (options.interactive) {
+        new Notice(warning, 8000);
       }
     }
 
-    return { frontmatter, body, hasFrontmatter: true };
-  }
+    // Ensure we have content to upload
+    const expanded = await this.expandNoteEmbeds(body, file.path);
+    const dataviewProblems: string[] = [];
+    const contentToUpload =
+      (
+        await this.freezeDataviewQueries(expanded, file.path, dataviewProblems)
+      ).trim() || 'Empty document';
+    for (const problem of dataviewProblems) {
+      console.warn(`${file.path}: ${problem}`);
+      if (options.interactive) {
+        new Notice(problem, 8000);
+      }
+    }
 
-  updateFrontmatter(content: string, confluenceUrl: string): string {
-    const frontmatterRegex =
-      /^---\s*\r?\n([\s\S]*?)\r?\n---\s*\r?\n?([\s\S]*)$/;
-    const match = content.match(frontmatterRegex);
+    // Upload to Confluence (only the body, not frontmatter)
+    const page = await this.uploadToConfluence(
+      pageOptions,
+      contentToUpload,
+      file.path,
+      options.folderCache,
+      publish,
+    );
 
-    if (!match) {
-      // No frontmatter exists, create it
-      return `---\nconfluence: ${confluenceUrl}\n---\n${content}`;
+    // If setting is enabled, add Confluence URL to frontmatter. The note may
+    // have been edited while the page was uploading, so this applies to the
+    // current contents rather than the copy that was published.
+    if (this.settings.addConfluenceUrl) {
+      const confluenceUrl = this.getPageUrl(page.id, pageOptions.spaceKey);
+      if (frontmatter.confluence !== confluenceUrl) {
+        await this.app.vault.process(file, (current) =>
+          this.updateFrontmatter(current, confluenceUrl),
+        );
+      }
     }
 
-    const frontmatterText = match[1];
-    const body = match[2];
+    await this.recordSync(file.path, page, hash, pageOptions.labels);
 
-    // Check if confluence field already exists
-    const confluenceLineRegex = /^confluence:.*$/m;
-    let updatedFrontmatter: string;
+    return page;
+  }
 
-    if (confluenceLineRegex.test(frontmatterText)) {
-      // Update existing confluence field
-      updatedFrontmatter = frontmatterText.replace(
-        confluenceLineRegex,
-        `confluence: ${confluenceUrl}`,
+  async publishLinkTargets(
+    file: TFile,
+    body: string,
+    options: SyncOptions,
+  ): Promise<string[]> {
+    const unresolved: string[] = [];
+    const publishing = options.publishing || new Set<string>();
+    publishing.add(file.path);
+
+    const linkRegex = /(?<!!)\[\[([^\]|#]*)(?:#[^\]|]*)?(?:\|[^\]]+)?\]\]/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = linkRegex.exec(body)) !== null) {
+      const linkPath = match[1].trim();
+      if (!linkPath || unresolved.includes(linkPath)) continue;
+
+      const target = this.app.metadataCache.getFirstLinkpathDest(
+        linkPath,
+        file.path,
       );
-    } else {
-      // Add confluence field at the end
-      updatedFrontmatter = frontmatterText.trimEnd() + `\nconfluence: ${confluenceUrl}`;
+      if (target && this.getNotePageId(target)) continue;
+
+      if (
+        target &&
+        target.extension === 'md' &&
+        this.settings.unpublishedLinks === 'publish' &&
+        !publishing.has(target.path)
+      ) {
+        try {
+          const published = await this.syncFile(target, {
+            folderCache: options.folderCache,
+            publishing,
+          });
+          if (published) continue;
+        } catch (error) {
+          console.error(`Error publishing linked note ${target.path}:`, error);
+        }
+      }
+
+      unresolved.push(linkPath);
     }
 
-    return `---\n${updatedFrontmatter}\n---\n${body}`;
+    return unresolved;
   }
 
-  async uploadToConfluence(
-    title: string,
-    markdownContent: string,
-    folderPath: string[],
-  ): Promise<ConfluencePage> {
-    const auth = Buffer.from(
-      `${this.settings.username}:${this.settings.apiToken}`,
-    ).toString('base64');
-
-    const domain = this.settings.domain.replace(/\/$/, '');
-
-    // Extract mermaid blocks and replace with placeholders
-    const mermaidBlocks: { id: string; filename: string; code: string }[] = [];
-    let processedMarkdown = markdownContent.replace(
-      /```mermaid\n([\s\S]+?)```/g,
-      (_match, code) => {
-        const filename = `MERMAID-PLACEHOLDER-${mermaidBlocks.length}.svg`;
-        mermaidBlocks.push({
-          id: `MERMAID-PLACEHOLDER-${mermaidBlocks.length}`,
-          filename,
-          code: code.trim(),
-        });
-        return `!${filename}`;
-      },
-    );
+  getNotePageId(file: TFile): string | null {
+    const confluenceUrl =
+      this.app.metadataCache.getFileCache(file)?.frontmatter?.confluence;
+    const pageId =
+      typeof confluenceUrl === 'string'
+        ? this.extractPageId(confluenceUrl)
+        : null;
+    return pageId || this.settings.syncedNotes[file.path]?.pageId || null;
+  }
 
-    // Extract image attachments and replace with placeholders
-    const imageAttachments: { filename: string; placeholder: string }[] = [];
-    processedMarkdown = processedMarkdown.replace(
-      /!\[\[([^\]]+\.(png|jpe?g))\]\]/gi,
-      (_match, filename) => {
-        const placeholder = `IMAGE-ATTACHMENT-${imageAttachments.length}`;
-        imageAttachments.push({ filename: filename.trim(), placeholder });
-        return placeholder;
-      },
-    );
+  // Title and space of a published note's page, which links to it refer to
+  getNotePage(file: TFile): PageRef | null {
+    if (!this.getNotePageId(file)) return null;
+
+    const frontmatter =
+      this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+    const { title, spaceKey } = this.getPageOptions(file, frontmatter, '');
+    return { title, spaceKey };
+  }
 
-    const confluenceContent =
-      this.convertMarkdownToConfluence(processedMarkdown);
+  /**
+   * Wiki link target of the synced note published as a page, with the heading
+   * a Confluence anchor points at. Null for pages of no synced note.
+   */
+  resolvePageLink(
+    page: LinkedPage,
+    anchor: string,
+    sourcePath: string,
+  ): string | null {
+    const file = Object.keys(this.settings.syncedNotes)
+      .map((path) => this.app.vault.getAbstractFileByPath(path))
+      .find((file): file is TFile => {
+        if (!(file instanceof TFile)) return false;
+        if (page.id) return this.getNotePageId(file) === page.id;
+        const notePage = this.getNotePage(file);
+        return (
+          !!notePage &&
+          notePage.title === page.title &&
+          (!page.spaceKey || notePage.spaceKey === page.spaceKey)
+        );
+      });
+    if (!file) return null;
 
-    let parentId: string | null = null;
+    const linkText = this.app.metadataCache.fileToLinktext(file, sourcePath);
+    if (!anchor) return linkText;
 
-    if (folderPath.length > 0) {
-      new Notice(`Creating folder structure: ${folderPath.join(' > ')}`);
-      parentId = await this.ensureFolderHierarchy(folderPath, auth, domain);
+    const heading = this.app.metadataCache
+      .getFileCache(file)
+      ?.headings?.find(
+        (heading) => toConfluenceAnchor(heading.heading) === anchor,
+      );
+    return `${linkText}#${heading ? heading.heading : anchor}`;
+  }
+
+  getPageUrl(pageId: string, spaceKey = this.settings.spaceId): string {
+    return this.api.isCloud
+      ? `${this.api.baseUrl}/spaces/${spaceKey}/pages/${pageId}`
+      : `${this.api.baseUrl}/pages/viewpage.action?pageId=${pageId}`;
+  }
+
+  async testConnection(): Promise<{ ok: boolean; message: string }[]> {
+    const results: { ok: boolean; message: string }[] = [];
+
+    const user = await this.api.getCurrentUser();
+    // Cloud answers bad credentials with the anonymous user
+    if (user.status !== 200 || user.json?.type === 'anonymous') {
+      results.push({
+        ok: false,
+        message: `Authentication failed (${user.status}). Check the ${this.settings.deployment === 'datacenter' ? 'personal access token' : 'username and API token'}.`,
+      });
+      return results;
     }
+    results.push({
+      ok: true,
+      message: `Signed in as ${user.json.displayName || user.json.username}`,
+    });
 
-    const existingPage = await this.findExistingPage(
-      title,
-      auth,
-      domain,
-      parentId,
-    );
+    const space = await this.api.getSpace(this.settings.spaceId);
+    if (space.status !== 200) {
+      results.push({
+        ok: false,
+        message: `Space ${this.settings.spaceId} was not found or you can't view it (${space.status})`,
+      });
+      return results;
+    }
+    results.push({
+      ok: true,
+      message: `Space ${this.settings.spaceId} (${space.json.name}) is visible`,
+    });
 
-    let page: ConfluencePage;
-    if (existingPage) {
-      page = await this.updatePage(
-        existingPage.id,
-        title,
-        confluenceContent,
-        existingPage.version.number,
-        auth,
-        domain,
-        parentId,
-      );
+    const operations: { operation: string; targetType: string }[] | undefined =
+      space.json.operations;
+    if (!operations) {
+      results.push({
+        ok: true,
+        message: 'Could not check whether you can create pages in the space',
+      });
+    } else if (
+      operations.some(
+        (op) => op.operation === 'create' && op.targetType === 'page',
+      )
+    ) {
+      results.push({ ok: true, message: 'You can create pages in the space' });
     } else {
-      page = await this.createPage(
-        title,
-        confluenceContent,
-        auth,
-        domain,
-        parentId,
-      );
+      results.push({
+        ok: false,
+        message: 'You are not allowed to create pages in the space',
+      });
     }
 
-    // If there are mermaid blocks or image attachments, process them
-    if (mermaidBlocks.length > 0 || imageAttachments.length > 0) {
-      let updatedContent = confluenceContent;
+    return results;
+  }
 
-      // Process mermaid blocks
-      if (mermaidBlocks.length > 0) {
-        new Notice(`Processing ${mermaidBlocks.length} Mermaid diagram(s)...`);
+  async openPreview() {
+    const activeFile = this.app.workspace.getActiveFile();
+    if (!activeFile || activeFile.extension !== 'md') {
+      new Notice('No active note to preview');
+      return;
+    }
 
-        for (const block of mermaidBlocks) {
-          try {
-            // Convert mermaid to SVG
-            const svgData = await this.convertMermaidToSvg(block.code);
-
-            // Upload as attachment
-            await this.uploadAttachment(
-              page.id,
-              block.filename,
-              svgData,
-              auth,
-              domain,
-            );
+    let leaf = this.app.workspace.getLeavesOfType(PREVIEW_VIEW_TYPE)[0];
+    if (!leaf) {
+      const rightLeaf = this.app.workspace.getRightLeaf(false);
+      if (!rightLeaf) return;
+      leaf = rightLeaf;
+      await leaf.setViewState({ type: PREVIEW_VIEW_TYPE, active: true });
+    }
+    this.app.workspace.revealLeaf(leaf);
 
-            // Replace placeholder with attachment reference (handle potential <p> tags)
-            const attachmentMacro = `<ac:image ac:width="500"><ri:attachment ri:filename="${block.filename}" /></ac:image>`;
-            const placeholderPattern = new RegExp(
-              `(<p>)?!${block.filename.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(</p>)?`,
-              'g',
-            );
-            updatedContent = updatedContent.replace(
-              placeholderPattern,
-              attachmentMacro,
-            );
+    if (leaf.view instanceof ConfluencePreviewView) {
+      await leaf.view.showFile(activeFile);
+    }
+  }
+
+  async openStatusView() {
+    let leaf = this.app.workspace.getLeavesOfType(STATUS_VIEW_TYPE)[0];
+    if (!leaf) {
+      const rightLeaf = this.app.workspace.getRightLeaf(false);
+      if (!rightLeaf) return;
+      leaf = rightLeaf;
+      await leaf.setViewState({ type: STATUS_VIEW_TYPE, active: true });
+    }
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  async pullCurrentComments() {
+    const activeFile = this.app.workspace.getActiveFile();
+    if (!activeFile || activeFile.extension !== 'md') {
+      new Notice('No active note to pull comments for');
+      return;
+    }
+
+    if (!this.validateSettings()) {
+      new Notice('Please configure Confluence settings first');
+      return;
+    }
+
+    let leaf = this.app.workspace.getLeavesOfType(COMMENTS_VIEW_TYPE)[0];
+    if (!leaf) {
+      const rightLeaf = this.app.workspace.getRightLeaf(false);
+      if (!rightLeaf) return;
+      leaf = rightLeaf;
+      await leaf.setViewState({ type: COMMENTS_VIEW_TYPE, active: true });
+    }
+    this.app.workspace.revealLeaf(leaf);
+
+    if (leaf.view instanceof ConfluenceCommentsView) {
+      await leaf.view.showFile(activeFile, true);
+    }
+  }
+
+  async fetchComments(file: TFile): Promise<ConfluenceComment[]> {
+    const pageId = this.getNotePageId(file);
+    if (!pageId) {
+      throw new Error('This note has not been synced to Confluence yet');
+    }
+    return this.api.listComments(pageId);
+  }
+
+  /**
+   * Fetches the page's comments and, if enabled, writes the unresolved ones
+   * to the end of the note.
+   */
+  async pullComments(file: TFile): Promise<ConfluenceComment[]> {
+    const comments = await this.fetchComments(file);
+    if (this.settings.commentsSection) {
+      await this.updateCommentsSection(file, comments);
+    }
+    return comments;
+  }
+
+  async replyToComment(file: TFile, comment: ConfluenceComment, text: string) {
+    const pageId = this.getNotePageId(file);
+    if (!pageId) {
+      throw new Error('This note has not been synced to Confluence yet');
+    }
+    await this.api.replyToComment(
+      pageId,
+      comment,
+      this.convertMarkdownToConfluence(text, file.path),
+    );
+  }
+
+  /**
+   * Replaces the comments section where it is, or adds it at the end of the
+   * note. Notes without open threads lose the section.
+   */
+  async updateCommentsSection(file: TFile, comments: ConfluenceComment[]) {
+    const section = this.renderCommentsSection(comments);
+
+    await this.app.vault.process(file, (content) => {
+      const lines = content.split('\n');
+      const range = this.findCommentsSection(lines);
+      if (range) {
+        const [start, end] = range;
+        lines.splice(start, end - start, ...(section ? ['', section] : []));
+        return lines.join('\n');
+      }
+      return section ? `${content.trimEnd()}\n\n${section}\n` : content;
+    });
+  }
+
+  /**
+   * Splits off the section of unresolved comments, which is never published.
+   */
+  splitCommentsSection(content: string): { body: string; section: string } {
+    const lines = content.split('\n');
+    const range = this.findCommentsSection(lines);
+    if (!range) {
+      return { body: content, section: '' };
+    }
+
+    const [start, end] = range;
+    return {
+      body: [...lines.slice(0, start), ...lines.slice(end)].join('\n'),
+      section: lines.slice(start, end).join('\n').trim(),
+    };
+  }
+
+  /**
+   * Lines of the comments section, from the blank line before its start
+   * marker through its end marker. Without both markers there is none, so
+   * nothing the user wrote is taken for pulled comments.
+   */
+  findCommentsSection(lines: string[]): [number, number] | null {
+    const start = lines.findIndex((line) =>
+      line.trim().startsWith('%% confluence-comments'),
+    );
+    const end = lines.findIndex(
+      (line, index) => index > start && line.trim() === COMMENTS_END,
+    );
+    if (start === -1 || end === -1) {
+      return null;
+    }
+
+    return [start > 0 && !lines[start - 1].trim() ? start - 1 : start, end + 1];
+  }
+
+  /**
+   * Open threads as quote callouts, with replies nested below the comment
+   * they answer. Empty when there are none.
+   */
+  renderCommentsSection(comments: ConfluenceComment[]): string {
+    const ids = new Set(comments.map((comment) => comment.id));
+    const threads = comments.filter(
+      (comment) =>
+        !comment.resolved && !(comment.parentId && ids.has(comment.parentId)),
+    );
+    if (threads.length === 0) {
+      return '';
+    }
+
+    const renderComment = (comment: ConfluenceComment): string[] => {
+      const lines = this.convertConfluenceToMarkdown(comment.body)
+        .markdown.trim()
+        .split('\n');
+      for (const reply of comments.filter((c) => c.parentId === comment.id)) {
+        lines.push(
+          '',
+          `**${reply.author}** · ${reply.created.slice(0, 10)}`,
+          ...renderComment(reply).map((line) => `> ${line}`.trimEnd()),
+        );
+      }
+      return lines;
+    };
+
+    const sections = threads.map((thread) =>
+      [
+        `[!quote] ${thread.author} · ${thread.created.slice(0, 10)}`,
+        ...(thread.selection ? [`*On "${thread.selection.trim()}"*`, ''] : []),
+        ...renderComment(thread),
+      ]
+        .map((line) => `> ${line}`.trimEnd())
+        .join('\n'),
+    );
+
+    return [
+      COMMENTS_START,
+      [`## ${COMMENTS_HEADING}`, ...sections, COMMENTS_END].join('\n\n'),
+    ].join('\n');
+  }
+
+  refreshStatusView() {
+    for (const leaf of this.app.workspace.getLeavesOfType(STATUS_VIEW_TYPE)) {
+      if (leaf.view instanceof ConfluenceStatusView) {
+        leaf.view.render();
+      }
+    }
+  }
+
+  async buildPreview(file: TFile): Promise<PagePreview> {
+    const content = await this.app.vault.read(file);
+    const { frontmatter, body } = this.parseFrontmatter(content);
+    const pageOptions = this.getPageOptions(file, frontmatter, body);
+
+    const embedProblems: string[] = [];
+    const expanded = await this.freezeDataviewQueries(
+      await this.expandNoteEmbeds(body, file.path, undefined, embedProblems),
+      file.path,
+      embedProblems,
+    );
+
+    const unresolvedLinks = new Set<string>();
+    const storage = this.convertMarkdownToConfluence(
+      expanded,
+      file.path,
+      unresolvedLinks,
+    );
+
+    // Round-trip the storage format so Obsidian can show roughly what
+    // Confluence will render
+    const { markdown } = this.convertConfluenceToMarkdown(
+      storage,
+      expanded,
+      file.path,
+    );
+
+    const issues: PagePreview['issues'] = collectIssues(body, {
+      attachmentsFolder: this.settings.attachmentsFolder,
+    });
+    if (frontmatter['confluence-skip'] === true) {
+      issues.unshift({
+        message: 'confluence-skip is set, so this note is not published',
+      });
+    }
+    for (const message of embedProblems) {
+      issues.push({ message });
+    }
+    for (const embed of collectEmbeds(expanded)) {
+      if (
+        embed.type !== 'note' &&
+        !this.resolveAttachment(embed.target, file.path)
+      ) {
+        issues.push({
+          message: `Embedded file ${embed.target} was not found and is not uploaded`,
+        });
+      }
+    }
+    for (const linkPath of unresolvedLinks) {
+      issues.push({
+        message:
+          this.settings.unpublishedLinks === 'publish'
+            ? `Linked note ${linkPath} has no Confluence page and is published first`
+            : `Link to ${linkPath} is published as plain text because the note has no Confluence page`,
+      });
+    }
+
+    return {
+      title: pageOptions.title,
+      spaceKey: pageOptions.spaceKey,
+      storage,
+      markdown,
+      issues,
+    };
+  }
+
+  async planPages(file: TFile): Promise<PlannedPage[]> {
+    const content = await this.app.vault.read(file);
+    const { frontmatter, body } = this.parseFrontmatter(content);
+    const { title, spaceKey, folderPath, ...pageOptions } =
+      this.getPageOptions(file, frontmatter, body);
+
+    // Walks the folder pages the same way ensureFolderHierarchy does, without
+    // writing anything
+    const pages: PlannedPage[] = [];
+    let parentId = pageOptions.parentId;
+    let creating = false;
+
+    for (const folderName of folderPath) {
+      if (creating) {
+        pages.push({ title: folderName, action: 'create' });
+        continue;
+      }
+
+      const existingPage = await this.findExistingPage(
+        folderName,
+        parentId,
+        spaceKey,
+      );
+      if (existingPage) {
+        pages.push({ title: folderName, action: 'unchanged' });
+        parentId = existingPage.id;
+        continue;
+      }
+
+      const anyPage = await this.findExistingPage(
+        folderName,
+        null,
+        spaceKey,
+      );
+      if (anyPage && !this.settings.folderPageIds.includes(anyPage.id)) {
+        pages.push({ title: folderName, action: 'taken' });
+        return pages;
+      } else if (anyPage) {
+        pages.push({ title: folderName, action: 'move' });
+        parentId = anyPage.id;
+      } else if (
+        await this.findArchivedPage(folderName, spaceKey)
+      ) {
+        pages.push({ title: folderName, action: 'archived' });
+        return pages;
+      } else {
+        pages.push({ title: folderName, action: 'create' });
+        creating = true;
+      }
+    }
+
+    const existingPage =
+      !creating &&
+      ((await this.findTrackedPage(file.path)) ||
+        (await this.findExistingPage(title, parentId, spaceKey)));
+    pages.push({ title, action: existingPage ? 'update' : 'create' });
+
+    return pages;
+  }
+
+  async handleRename(file: TAbstractFile, oldPath: string) {
+    // A renamed folder moves every synced note below it
+    const renamed: [string, string][] =
+      file instanceof TFolder
+        ? Object.keys(this.settings.syncedNotes)
+            .filter((path) => path.startsWith(`${oldPath}/`))
+            .map((path) => [path, file.path + path.slice(oldPath.length)])
+        : this.settings.syncedNotes[oldPath]
+          ? [[oldPath, file.path]]
+          : [];
+
+    for (const [from, to] of renamed) {
+      this.settings.syncedNotes[to] = this.settings.syncedNotes[from];
+      delete this.settings.syncedNotes[from];
+    }
+    const movePath = (path: string) =>
+      path === oldPath || path.startsWith(`${oldPath}/`)
+        ? file.path + path.slice(oldPath.length)
+        : path;
+    const queue = this.settings.syncQueue;
+    if (queue) {
+      queue.pending = queue.pending.map(movePath);
+    }
+    this.settings.autoPublishQueue =
+      this.settings.autoPublishQueue.map(movePath);
+    await this.saveSettings();
+
+    if (renamed.length === 0 || !this.validateSettings()) return;
+
+    for (const [, to] of renamed) {
+      const note = this.app.vault.getAbstractFileByPath(to);
+      if (!(note instanceof TFile)) continue;
+
+      try {
+        await this.moveSyncedPage(note);
+      } catch (error) {
+        console.error(`Error moving Confluence page for ${to}:`, error);
+        new Notice(`Failed to move Confluence page for ${to}: ${error.message}`);
+      }
+    }
+  }
+
+  async moveSyncedPage(file: TFile) {
+    const synced = this.settings.syncedNotes[file.path];
+    const content = await this.app.vault.read(file);
+    const { frontmatter, body } = this.parseFrontmatter(content);
+    if (frontmatter['confluence-skip'] === true) return;
+
+    const pageOptions = this.getPageOptions(file, frontmatter, body);
+
+    // Pages published at the top of the space keep their current parent,
+    // since the v1 API can't move a page back to the top. Pages the plugin
+    // didn't create are only renamed.
+    const parentId = !this.settings.createdPageIds.includes(synced.pageId)
+      ? null
+      : pageOptions.folderPath.length > 0
+        ? await this.ensureFolderHierarchy(
+            pageOptions.folderPath,
+            pageOptions.spaceKey,
+            pageOptions.parentId,
+          )
+        : pageOptions.parentId;
+
+    const remotePage = await this.api.getPage(synced.pageId);
+    const page = await this.updatePage(
+      remotePage.id,
+      pageOptions.title,
+      remotePage.body?.storage?.value || '',
+      remotePage.version.number,
+      parentId,
+      { minorEdit: true },
+    );
+
+    // Only our own version bump is recorded; edits made in Confluence since
+    // the last sync must still show up as a conflict
+    if (remotePage.version.number === synced.version) {
+      synced.version = page.version.number;
+      await this.saveSettings();
+    }
+
+    new Notice(`Moved Confluence page to "${pageOptions.title}"`);
+  }
+
+  async handleDelete(file: TAbstractFile) {
+    const deleted = Object.keys(this.settings.syncedNotes).filter(
+      (path) => path === file.path || path.startsWith(`${file.path}/`),
+    );
+    if (deleted.length === 0) return;
+
+    for (const path of deleted) {
+      this.deletedNotes.set(path, this.settings.syncedNotes[path].pageId);
+      delete this.settings.syncedNotes[path];
+    }
+    await this.saveSettings();
+
+    this.promptArchive();
+  }
+
+  /**
+   * Asks once about every note deleted in a burst: deleting a folder raises
+   * a delete event per note.
+   */
+  promptArchive = debounce(() => this.archiveDeletedPages(), 500, true);
+
+  async archiveDeletedPages() {
+    const deleted = [...this.deletedNotes.keys()];
+    const pageIds = [...this.deletedNotes.values()];
+    this.deletedNotes.clear();
+
+    if (deleted.length === 0 || !this.validateSettings()) return;
+
+    if (!this.api.isCloud) {
+      new Notice(
+        'Archiving pages is only available on Confluence Cloud, so the pages of deleted notes are left as they are',
+        8000,
+      );
+      return;
+    }
+
+    const archive = await new Promise<boolean>((resolve) => {
+      new ArchiveModal(this.app, deleted, resolve).open();
+    });
+    if (!archive) return;
+
+    try {
+      await this.api.archivePages(pageIds);
+      this.forgetCreatedPages(pageIds);
+      await this.saveSettings();
+      new Notice(`Archived ${pageIds.length} Confluence page(s)`);
+    } catch (error) {
+      console.error('Error archiving Confluence pages:', error);
+      new Notice(`Failed to archive: ${error.message}`);
+    }
+  }
+
+  async syncFolder(folder: TFolder) {
+    if (this.isBatchRunning) {
+      new Notice('A Confluence batch sync is already running');
+      return;
+    }
+
+    if (!this.validateSettings()) {
+      new Notice('Please configure Confluence settings first');
+      return;
+    }
+
+    const files = this.collectMarkdownFiles(folder);
+    if (files.length === 0) {
+      new Notice(`No notes found in "${folder.path}"`);
+      return;
+    }
+
+    this.settings.syncQueue = {
+      folder: folder.path,
+      pending: files.map((file) => file.path),
+    };
+    await this.saveSettings();
+
+    await this.runSyncQueue();
+  }
+
+  async runSyncQueue() {
+    const queue = this.settings.syncQueue;
+    if (!queue || this.isBatchRunning) return;
+
+    if (!this.validateSettings()) {
+      new Notice('Please configure Confluence settings first');
+      return;
+    }
+
+    this.isBatchRunning = true;
+    const modal = new BatchSyncModal(this.app, queue.folder, queue.pending.length);
+    modal.open();
+
+    // Folder pages are resolved once per directory for the whole batch
+    const folderCache = new Map<string, string | null>();
+    let succeeded = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    try {
+      while (queue.pending.length > 0 && !modal.isStopped) {
+        const path = queue.pending[0];
+        modal.setCurrent(path, succeeded + skipped + failed);
+
+        const file = this.app.vault.getAbstractFileByPath(path);
+        try {
+          if (!(file instanceof TFile)) {
+            throw new Error('File no longer exists');
+          }
+          const page = await this.syncFile(file, { folderCache });
+          modal.addResult(path, undefined, !page);
+          if (page) succeeded++;
+          else skipped++;
+        } catch (error) {
+          console.error(`Error syncing ${path} to Confluence:`, error);
+          modal.addResult(path, error.message);
+          failed++;
+        }
+
+        queue.pending.shift();
+        await this.saveSettings();
+      }
+    } finally {
+      this.isBatchRunning = false;
+    }
+
+    const remaining = queue.pending.length;
+    if (remaining === 0) {
+      this.settings.syncQueue = null;
+      await this.saveSettings();
+    }
+
+    modal.finish(succeeded, skipped, failed, remaining);
+    const counts = `${succeeded} synced, ${skipped} skipped, ${failed} failed`;
+    new Notice(
+      remaining > 0
+        ? `Confluence batch sync stopped: ${counts}, ${remaining} left`
+        : `Confluence batch sync finished: ${counts}`,
+    );
+  }
+
+  /**
+   * Publishes a note once it has been left alone for the idle delay, so a
+   * burst of saves results in one sync.
+   */
+  scheduleAutoPublish(file: TFile) {
+    if (!this.isAutoPublished(file)) return;
+
+    window.clearTimeout(this.autoPublishTimers.get(file.path));
+    this.autoPublishTimers.set(
+      file.path,
+      window.setTimeout(async () => {
+        this.autoPublishTimers.delete(file.path);
+        if (!this.settings.autoPublishQueue.includes(file.path)) {
+          this.settings.autoPublishQueue.push(file.path);
+          await this.saveSettings();
+        }
+        await this.runAutoPublishQueue();
+      }, this.settings.autoPublishDelay * 1000),
+    );
+  }
+
+  isAutoPublished(file: TFile): boolean {
+    if (!this.settings.autoPublish || file.extension !== 'md') return false;
+
+    const frontmatter =
+      this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+    if (frontmatter['confluence-skip'] === true) return false;
+
+    return (
+      frontmatter.confluence !== undefined ||
+      this.settings.autoPublishFolders.some((folder) =>
+        file.path.startsWith(`${folder}/`),
+      )
+    );
+  }
+
+  /**
+   * Publishes queued notes one at a time, so two saves of a note never
+   * update its page at once. Notes stay queued while offline and are
+   * retried when the connection is back.
+   */
+  async runAutoPublishQueue() {
+    const queue = this.settings.autoPublishQueue;
+    // A running batch publishes the same pages; the next retry picks them up
+    if (this.isAutoPublishing || this.isBatchRunning || queue.length === 0) {
+      return;
+    }
+    // Asking for the passphrase from a background timer would be out of the
+    // blue; the queue runs once the token is unlocked
+    if (!this.validateSettings() || this.isTokenLocked) return;
+
+    this.isAutoPublishing = true;
+    try {
+      while (queue.length > 0 && navigator.onLine) {
+        const path = queue[0];
+        const file = this.app.vault.getAbstractFileByPath(path);
+
+        // Saves that did not change the body, like the sync writing the page
+        // URL to the frontmatter, are not published again. A manual sync of
+        // the note that ran first has published it already.
+        if (file instanceof TFile && this.isAutoPublished(file)) {
+          try {
+            await this.runExclusive(async () => {
+              if (
+                !this.settings.syncedNotes[path] ||
+                (await this.hasLocalChanges(file))
+              ) {
+                await this.syncFile(file);
+              }
+            });
           } catch (error) {
-            console.error(`Error processing mermaid block ${block.id}:`, error);
+            if (!navigator.onLine) break;
+
+            console.error(`Error publishing ${path} to Confluence:`, error);
             new Notice(
-              `Warning: Failed to process Mermaid diagram: ${error.message}`,
+              `Failed to publish ${file.basename} to Confluence: ${error.message}`,
             );
-            // Keep the placeholder if conversion fails
           }
         }
+
+        queue.shift();
+        await this.saveSettings();
+      }
+    } finally {
+      this.isAutoPublishing = false;
+    }
+  }
+
+  /**
+   * Runs a sync once the ones before it are done, so a manual sync and the
+   * auto-publish queue never update the same page at once
+   */
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.publishing.then(task, task);
+    this.publishing = run.catch(() => undefined);
+    return run;
+  }
+
+  collectMarkdownFiles(folder: TFolder): TFile[] {
+    const files: TFile[] = [];
+
+    const walk = (current: TFolder) => {
+      for (const child of current.children) {
+        if (child instanceof TFile && child.extension === 'md') {
+          files.push(child);
+        } else if (child instanceof TFolder) {
+          walk(child);
+        }
+      }
+    };
+    walk(folder);
+
+    // Keep notes from the same directory together
+    return files.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async pullCurrentFile() {
+    const activeFile = this.app.workspace.getActiveFile();
+
+    if (!activeFile) {
+      new Notice('No active file to pull');
+      return;
+    }
+
+    if (!this.validateSettings()) {
+      new Notice('Please configure Confluence settings first');
+      return;
+    }
+
+    await this.pullFile(activeFile);
+  }
+
+  async pullFile(file: TFile) {
+    try {
+      const content = await this.app.vault.read(file);
+      const { frontmatter, body } = this.parseFrontmatter(content);
+      const pageId =
+        this.extractPageId(String(frontmatter.confluence || '')) ||
+        this.settings.syncedNotes[file.path]?.pageId;
+
+      if (!pageId) {
+        new Notice('This file has not been synced to Confluence yet');
+        return;
+      }
+
+      new Notice('Pulling from Confluence...');
+
+      const page = await this.api.getPage(pageId);
+      const storage = page.body?.storage?.value || '';
+
+      const { markdown, attachments } = this.convertConfluenceToMarkdown(
+        storage,
+        body,
+        file.path,
+      );
+
+      for (const attachment of attachments) {
+        try {
+          const data = await this.api.downloadAttachment(
+            pageId,
+            attachment.filename,
+          );
+          await this.writeAttachment(attachment, data, file.path);
+        } catch (error) {
+          console.error(
+            `Error downloading attachment ${attachment.filename}:`,
+            error,
+          );
+          new Notice(
+            `Warning: Failed to download attachment ${attachment.filename}: ${error.message}`,
+          );
+        }
+      }
+
+      const pulled = await this.restoreNoteEmbeds(markdown, body, file.path);
+      if (pulled.expanded > 0) {
+        new Notice(
+          `${pulled.expanded} embedded note(s) were edited in Confluence. The pulled note has their content instead of the embeds.`,
+          10000,
+        );
+      }
+
+      // Pulled comments stay at the end of the note
+      const { section } = this.splitCommentsSection(content);
+      const updatedContent = this.replaceBody(
+        content,
+        section ? `${pulled.markdown}\n${section}\n` : pulled.markdown,
+      );
+      await this.app.vault.modify(file, updatedContent);
+      // Hashed as written, comments section included, the way publishing
+      // hashes the note
+      await this.recordSync(
+        file.path,
+        page,
+        await this.hashContent(this.parseFrontmatter(updatedContent).body),
+      );
+      await this.logSync({ path: file.path, action: 'pull', pageId });
+
+      new Notice('Successfully pulled from Confluence!');
+    } catch (error) {
+      console.error('Error pulling from Confluence:', error);
+      new Notice(`Failed to pull: ${error.message}`);
+      await this.logSync({
+        path: file.path,
+        action: 'pull',
+        error: error.message,
+      });
+    }
+  }
+
+  async checkForConflict(
+    file: TFile,
+    localBody: string,
+    prompt = true,
+  ): Promise<ConflictResolution> {
+    const synced = this.settings.syncedNotes[file.path];
+    if (!synced) {
+      return 'overwrite';
+    }
+
+    const remotePage = await this.api.findPage(synced.pageId);
+    // The page is gone, so there is nothing to clobber
+    if (!remotePage || remotePage.version.number <= synced.version) {
+      return 'overwrite';
+    }
+
+    if (!prompt) {
+      throw new Error(
+        'Page was edited in Confluence since the last sync; sync this note on its own to resolve the conflict',
+      );
+    }
+
+    const { markdown } = this.convertConfluenceToMarkdown(
+      remotePage.body?.storage?.value || '',
+      localBody,
+      file.path,
+    );
+    const localChanged = (await this.hashContent(localBody)) !== synced.hash;
+
+    return new Promise((resolve) => {
+      new ConflictModal(
+        this.app,
+        {
+          title: file.basename,
+          localMarkdown: localBody,
+          remoteMarkdown: markdown,
+          syncedVersion: synced.version,
+          remoteVersion: remotePage.version.number,
+          localChanged,
+        },
+        resolve,
+      ).open();
+    });
+  }
+
+  getPageOptions(
+    file: TFile,
+    frontmatter: Record<string, any>,
+    body: string,
+  ): PageOptions {
+    const text = (value: unknown) =>
+      value === undefined || value === null ? '' : String(value).trim();
+    // Frontmatter lists may also be written as a comma-separated string
+    const list = (value: unknown): string[] =>
+      (Array.isArray(value) ? value : text(value).split(','))
+        .map(text)
+        .filter((item) => item);
+
+    // A parent pinned in frontmatter replaces the folder mapping
+    const parent = text(frontmatter['confluence-parent']);
+    const pinnedParentId = this.parsePageReference(parent);
+    if (parent && !pinnedParentId) {
+      throw new Error(`confluence-parent is not a page id or URL: ${parent}`);
+    }
+    const { parentId, folderPath } = pinnedParentId
+      ? { parentId: pinnedParentId, folderPath: [] }
+      : this.getFolderTarget(file);
+
+    // Obsidian tags become labels too, renamed through the tag map
+    const frontmatterTags =
+      typeof frontmatter.tags === 'string'
+        ? frontmatter.tags.split(/[\s,]+/)
+        : list(frontmatter.tags);
+    const tags = [...frontmatterTags, ...collectTags(body)].map((tag) => {
+      const name = tag.replace(/^#/, '');
+      return this.settings.tagLabels[name.toLowerCase()] ?? name;
+    });
+
+    // Confluence labels are lowercase and can't contain spaces or punctuation
+    const labels = [
+      ...new Set(
+        [...list(frontmatter['confluence-labels']), ...tags]
+          .map((label) =>
+            label
+              .toLowerCase()
+              .replace(/[\s:;,.?&[\]()#^*@!/]+/g, '-')
+              .replace(/^-+|-+$/g, ''),
+          )
+          .filter((label) => label),
+      ),
+    ];
+
+    return {
+      title: text(frontmatter['confluence-title']) || file.basename,
+      spaceKey: text(frontmatter['confluence-space']) || this.settings.spaceId,
+      parentId,
+      folderPath,
+      labels,
+    };
+  }
+
+  async getPublishOptions(
+    frontmatter: Record<string, any>,
+    options: SyncOptions,
+  ): Promise<PublishOptions | null> {
+    const minorEdit =
+      typeof frontmatter['confluence-minor-edit'] === 'boolean'
+        ? frontmatter['confluence-minor-edit']
+        : this.settings.minorEdits;
+
+    let versionComment = String(frontmatter['confluence-version-comment'] ?? '');
+    if (
+      !versionComment &&
+      options.interactive &&
+      this.settings.promptForVersionComment
+    ) {
+      const comment = await new Promise<string | null>((resolve) => {
+        new VersionCommentModal(this.app, resolve).open();
+      });
+      if (comment === null) return null;
+      versionComment = comment;
+    }
+
+    return { minorEdit, versionComment };
+  }
+
+  async recordSync(
+    path: string,
+    page: ConfluencePage,
+    hash: string,
+    labels = this.settings.syncedNotes[path]?.labels,
+  ) {
+    this.settings.syncedNotes[path] = {
+      pageId: page.id,
+      version: page.version.number,
+      hash,
+      syncedAt: Date.now(),
+      labels,
+    };
+    await this.saveSettings();
+  }
+
+  async logSync(entry: Omit<SyncLogEntry, 'time'>) {
+    this.settings.syncLog.unshift({ time: Date.now(), ...entry });
+    this.settings.syncLog.splice(SYNC_LOG_LIMIT);
+    await this.saveSettings();
+    this.refreshStatusView();
+  }
+
+  async retrySync(entry: SyncLogEntry) {
+    const file = this.app.vault.getAbstractFileByPath(entry.path);
+    if (!(file instanceof TFile)) {
+      new Notice(`${entry.path} no longer exists`);
+      return;
+    }
+
+    if (entry.action === 'pull') {
+      await this.pullFile(file);
+    } else {
+      await this.syncNote(file);
+    }
+  }
+
+  async hasLocalChanges(file: TFile): Promise<boolean> {
+    const synced = this.settings.syncedNotes[file.path];
+    if (!synced) return false;
+
+    const { body } = this.parseFrontmatter(await this.app.vault.read(file));
+    return (await this.hashContent(body)) !== synced.hash;
+  }
+
+  async hashContent(content: string | ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest(
+      'SHA-256',
+      typeof content === 'string' ? new TextEncoder().encode(content) : content,
+    );
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => ('0' + byte.toString(16)).slice(-2))
+      .join('');
+  }
+
+  extractPageId(confluenceUrl: string): string | null {
+    // Cloud: /spaces/KEY/pages/123, Data Center: /pages/viewpage.action?pageId=123
+    const match = confluenceUrl.match(/\/pages\/(\d+)|[?&]pageId=(\d+)/);
+    return match ? match[1] || match[2] : null;
+  }
+
+  parsePageReference(value: string): string | null {
+    // Pages can be referenced by id or by URL
+    return /^\d+$/.test(value) ? value : this.extractPageId(value);
+  }
+
+  getFolderTarget(file: TFile): {
+    parentId: string | null;
+    folderPath: string[];
+  } {
+    const path = file.parent?.path.replace(/^\/$/, '') || '';
+
+    // The most specific folder mapping wins; other notes go under the root page
+    const mapping = this.settings.folderMappings
+      .filter(
+        (candidate) =>
+          candidate.folder &&
+          (path === candidate.folder || path.startsWith(`${candidate.folder}/`)),
+      )
+      .sort((a, b) => b.folder.length - a.folder.length)[0];
+    const parentId =
+      this.parsePageReference(mapping?.parentId || '') ||
+      this.parsePageReference(this.settings.rootPageId) ||
+      null;
+
+    if (this.settings.folderMode === 'flatten') {
+      return { parentId, folderPath: [] };
+    }
+
+    const relativePath = mapping ? path.slice(mapping.folder.length) : path;
+    let prefix: RegExp | null = null;
+    try {
+      prefix = this.settings.folderPrefixPattern
+        ? new RegExp(this.settings.folderPrefixPattern)
+        : null;
+    } catch (error) {
+      console.warn('Ignoring invalid folder prefix pattern:', error);
+    }
+    const folderPath = relativePath
+      .split('/')
+      .map((name) => (prefix ? name.replace(prefix, '') : name).trim())
+      .filter((name) => name);
+
+    return { parentId, folderPath };
+  }
+
+  validateSettings(): boolean {
+    return !!(
+      this.settings.domain &&
+      // Personal access tokens don't need a username
+      (this.settings.username || this.settings.deployment === 'datacenter') &&
+      (this.apiToken || this.tokenStorage) &&
+      this.settings.spaceId
+    );
+  }
+
+  parseFrontmatter(content: string): {
+    frontmatter: Record<string, any>;
+    body: string;
+    hasFrontmatter: boolean;
+  } {
+    // const frontmatterRegex = /^---\n([\s\S]*?)\n---\n([\s\S]*)$/;
+    const frontmatterRegex =
+      /^---\s*\r?\n([\s\S]*?)\r?\n---\s*\r?\n?([\s\S]*)$/;
+    const match = content.match(frontmatterRegex);
+
+    if (!match) {
+      return {
+        frontmatter: {},
+        body: this.splitCommentsSection(content).body,
+        hasFrontmatter: false,
+      };
+    }
+
+    const frontmatterText = match[1];
+    const { body } = this.splitCommentsSection(match[2]);
+    let frontmatter: Record<string, any> = {};
+
+    try {
+      frontmatter = parseYaml(frontmatterText) || {};
+    } catch (error) {
+      console.warn('Ignoring frontmatter that is not valid YAML:', error);
+    }
+
+    return { frontmatter, body, hasFrontmatter: true };
+  }
+
+  updateFrontmatter(content: string, confluenceUrl: string): string {
+    const frontmatterRegex =
+      /^---\s*\r?\n([\s\S]*?)\r?\n---\s*\r?\n?([\s\S]*)$/;
+    const match = content.match(frontmatterRegex);
+
+    if (!match) {
+      // No frontmatter exists, create it
+      return `---\nconfluence: ${confluenceUrl}\n---\n${content}`;
+    }
+
+    const frontmatterText = match[1];
+    const body = match[2];
+
+    // Check if confluence field already exists
+    const confluenceLineRegex = /^confluence:.*$/m;
+    let updatedFrontmatter: string;
+
+    if (confluenceLineRegex.test(frontmatterText)) {
+      // Update existing confluence field
+      updatedFrontmatter = frontmatterText.replace(
+        confluenceLineRegex,
+        `confluence: ${confluenceUrl}`,
+      );
+    } else {
+      // Add confluence field at the end
+      updatedFrontmatter = frontmatterText.trimEnd() + `\nconfluence: ${confluenceUrl}`;
+    }
+
+    return `---\n${updatedFrontmatter}\n---\n${body}`;
+  }
+
+  replaceBody(content: string, body: string): string {
+    const frontmatterRegex = /^(---\s*\r?\n[\s\S]*?\r?\n---\s*\r?\n?)/;
+    const match = content.match(frontmatterRegex);
+
+    if (!match) {
+      return body;
+    }
+
+    return `${match[1].replace(/\r?\n?$/, '\n')}${body}`;
+  }
+
+  async uploadToConfluence(
+    pageOptions: PageOptions,
+    markdownContent: string,
+    sourcePath: string,
+    folderCache?: Map<string, string | null>,
+    publish: PublishOptions = {},
+  ): Promise<ConfluencePage> {
+    const { title, spaceKey, folderPath } = pageOptions;
+
+    // Mermaid diagrams are referenced as SVG attachments by the converted
+    // content and uploaded before the content is written
+    const mermaidBlocks = collectMermaidDiagrams(markdownContent);
+
+    // Embedded files are referenced as attachments in the same way
+    const fileEmbeds = collectEmbeds(markdownContent).filter(
+      (embed, index, embeds) =>
+        embed.type !== 'note' &&
+        embeds.findIndex((other) => other.filename === embed.filename) ===
+          index,
+    );
+
+    // Diagrams that fail to render are published as code, so
+    // the content is converted once the renders are done
+    const unrendered = new Set<string>();
+    const convertContent = () =>
+      this.convertMarkdownToConfluence(
+        markdownContent,
+        sourcePath,
+        undefined,
+        unrendered,
+      );
+
+    let parentId = pageOptions.parentId;
+
+    if (folderPath.length > 0) {
+      const folderKey = `${spaceKey}/${parentId}/${folderPath.join('/')}`;
+      const cachedParentId = folderCache?.get(folderKey);
+
+      if (cachedParentId !== undefined) {
+        parentId = cachedParentId;
+      } else {
+        new Notice(`Creating folder structure: ${folderPath.join(' > ')}`);
+        parentId = await this.ensureFolderHierarchy(
+          folderPath,
+          spaceKey,
+          parentId,
+        );
+        folderCache?.set(folderKey, parentId);
+      }
+    }
+
+    // The page the note was last synced to wins over a title lookup, so
+    // renamed and moved notes keep their page
+    const existingPage =
+      (await this.findTrackedPage(sourcePath)) ||
+      (await this.findExistingPage(title, parentId, spaceKey));
+    const hasAttachments =
+      mermaidBlocks.length > 0 || fileEmbeds.length > 0;
+
+    // Labels are applied once the page is published; a failure leaves the
+    // page itself in place
+    const applyLabels = async (pageId: string) => {
+      const synced = this.settings.syncedNotes[sourcePath];
+      const previous = synced?.pageId === pageId ? synced.labels || [] : [];
+      try {
+        await this.syncLabels(pageId, pageOptions.labels, previous);
+      } catch (error) {
+        console.error(`Error adding labels to ${title}:`, error);
+        new Notice(`Warning: ${error.message}`);
+      }
+    };
+
+    // A new page without attachments can be published in one request
+    if (!existingPage && !hasAttachments) {
+      const page = await this.createPage(
+        title,
+        convertContent(),
+        parentId,
+        'current',
+        spaceKey,
+      );
+      await applyLabels(page.id);
+      return page;
+    }
+
+    // Otherwise attachments go up first, to the existing page or to a draft,
+    // so the content is written exactly once and never references a missing
+    // attachment
+    const target =
+      existingPage ||
+      (await this.createPage(
+        title,
+        '',
+        parentId,
+        'draft',
+        spaceKey,
+      ));
+    const isDraft = !existingPage;
+
+    // Existing attachments tell us which uploads can be skipped
+    const existingAttachments = new Map(
+      (isDraft
+        ? []
+        : await this.api.listAttachments(target.id)
+      ).map((attachment) => [attachment.title, attachment]),
+    );
+    const referenced = new Set([
+      ...mermaidBlocks.map((block) => block.filename),
+      ...fileEmbeds.map((embed) => embed.filename),
+    ]);
+    let uploaded = 0;
+    let unchanged = 0;
+
+    // Process mermaid blocks
+    if (mermaidBlocks.length > 0) {
+      new Notice(`Processing ${mermaidBlocks.length} Mermaid diagram(s)...`);
+
+      for (const block of mermaidBlocks) {
+        try {
+          // Convert mermaid to SVG
+          const svgData = await this.convertMermaidToSvg(block.code);
+
+          const changed = await this.syncAttachment(
+            target.id,
+            block.filename,
+            svgData,
+            'image/svg+xml',
+            existingAttachments.get(block.filename),
+            isDraft,
+          );
+          if (changed) uploaded++;
+          else unchanged++;
+        } catch (error) {
+          console.error(`Error processing mermaid block ${block.filename}:`, error);
+          new Notice(
+            `Warning: Failed to process Mermaid diagram, publishing it as code: ${error.message}`,
+          );
+          unrendered.add(block.filename);
+        }
       }
+    }
 
-      // Process image attachments
-      if (imageAttachments.length > 0) {
-        new Notice(
-          `Processing ${imageAttachments.length} image attachment(s)...`,
-        );
 
-        for (const attachment of imageAttachments) {
-          try {
-            // Read image file from attachments folder
-            const { data, contentType } = await this.readImageAttachment(
-              attachment.filename,
-            );
+    // Process embedded files
+    if (fileEmbeds.length > 0) {
+      new Notice(`Processing ${fileEmbeds.length} attachment(s)...`);
 
-            // Upload as attachment
-            await this.uploadBinaryAttachment(
-              page.id,
-              attachment.filename,
-              data,
-              contentType,
-              auth,
-              domain,
-            );
+      for (const embed of fileEmbeds) {
+        try {
+          const { data, contentType } = await this.readAttachment(
+            embed.target,
+            sourcePath,
+          );
 
-            // Replace placeholder with attachment reference (handle potential <p> tags)
-            const attachmentMacro = `<ac:image ac:width="500"><ri:attachment ri:filename="${attachment.filename}" /></ac:image>`;
-            const placeholderPattern = new RegExp(
-              `(<p>)?${attachment.placeholder}(</p>)?`,
-              'g',
-            );
-            updatedContent = updatedContent.replace(
-              placeholderPattern,
-              attachmentMacro,
-            );
-          } catch (error) {
-            console.error(
-              `Error processing image attachment ${attachment.filename}:`,
-              error,
-            );
-            new Notice(
-              `Warning: Failed to process image ${attachment.filename}: ${error.message}`,
-            );
-            // Keep the placeholder if processing fails
-          }
+          const changed = await this.syncAttachment(
+            target.id,
+            embed.filename,
+            data,
+            contentType,
+            existingAttachments.get(embed.filename),
+            isDraft,
+          );
+          if (changed) uploaded++;
+          else unchanged++;
+        } catch (error) {
+          console.error(
+            `Error processing attachment ${embed.filename}:`,
+            error,
+          );
+          new Notice(
+            `Warning: Failed to process attachment ${embed.filename}: ${error.message}`,
+          );
         }
       }
+    }
 
-      // Update the page with the final content including attachment references
-      await this.updatePage(
-        page.id,
+    let page: ConfluencePage;
+    try {
+      page = await this.updatePage(
+        target.id,
         title,
-        updatedContent,
-        page.version.number,
-        auth,
-        domain,
-        parentId,
+        convertContent(),
+        isDraft ? 0 : target.version.number,
+        // Never re-parent a page the plugin didn't create
+        this.settings.createdPageIds.includes(target.id) ? parentId : null,
+        publish,
+        isDraft,
+      );
+    } catch (error) {
+      // The next sync starts over with a new draft, so this one would be
+      // left behind in the space
+      if (isDraft) {
+        try {
+          await this.api.deleteDraft(target.id);
+        } catch (deleteError) {
+          console.error(`Error deleting draft of ${title}:`, deleteError);
+        }
+        this.forgetCreatedPages([target.id]);
+        await this.saveSettings();
+      }
+      throw error;
+    }
+
+    // Remove attachments the plugin uploaded that the note no longer uses.
+    // Files attached in Confluence directly have no hash comment and are kept.
+    let removed = 0;
+    for (const attachment of existingAttachments.values()) {
+      if (
+        (referenced.has(attachment.title) &&
+          !unrendered.has(attachment.title)) ||
+        !this.getAttachmentHash(attachment)
+      ) {
+        continue;
+      }
+
+      try {
+        await this.api.deleteAttachment(attachment.id);
+        removed++;
+      } catch (error) {
+        console.error(
+          `Error removing attachment ${attachment.title}:`,
+          error,
+        );
+      }
+    }
+
+    if (uploaded + unchanged + removed > 0) {
+      new Notice(
+        `Attachments: ${uploaded} uploaded, ${unchanged} unchanged, ${removed} removed`,
       );
     }
 
+    await applyLabels(page.id);
+
     return page;
   }
 
   async ensureFolderHierarchy(
     folderPath: string[],
-    auth: string,
-    domain: string,
+    spaceKey = this.settings.spaceId,
+    rootParentId: string | null = null,
   ): Promise<string | null> {
-    let currentParentId: string | null = null;
+    let currentParentId = rootParentId;
 
     for (const folderName of folderPath) {
       let existingPage: ConfluencePage | null = await this.findExistingPage(
         folderName,
-        auth,
-        domain,
         currentParentId,
+        spaceKey,
       );
 
       if (existingPage) {
@@ -383,12 +2185,18 @@ export default class ConfluenceSyncPlugin extends Plugin {
         // Check if page exists anywhere in the space (wrong parent or at root)
         const anyPage: ConfluencePage | null = await this.findExistingPage(
           folderName,
-          auth,
-          domain,
           null,
+          spaceKey,
         );
 
-        if (anyPage) {
+        if (anyPage && !this.settings.folderPageIds.includes(anyPage.id)) {
+          // Titles are unique in a space, and only folder pages the plugin
+          // created are moved and overwritten: not pages someone else
+          // created, nor the pages of notes
+          throw new Error(
+            `Cannot create folder page "${folderName}" - a page with this title already exists elsewhere in the space. Map the folder to a parent page in settings, or rename the folder.`,
+          );
+        } else if (anyPage) {
           // Page exists but in wrong location - update its parent
           new Notice(`Moving "${folderName}" to correct location...`);
           const updatedPage: ConfluencePage = await this.updatePage(
@@ -396,20 +2204,17 @@ export default class ConfluenceSyncPlugin extends Plugin {
             folderName,
             '<p>This page represents a folder in your Obsidian vault.</p>',
             anyPage.version.number,
-            auth,
-            domain,
             currentParentId,
           );
           currentParentId = updatedPage.id;
         } else {
           // Check if an archived page exists with this title
           const archivedPage: ConfluencePage | null =
-            await this.findArchivedPage(folderName, auth, domain);
+            await this.findArchivedPage(folderName, spaceKey);
 
           if (archivedPage) {
             // Archived page found - can't create or restore automatically
-            const domain = this.settings.domain.replace(/\/$/, '');
-            const pageUrl = `${domain}/wiki/spaces/${this.settings.spaceId}/pages/${archivedPage.id}`;
+            const pageUrl = this.getPageUrl(archivedPage.id, spaceKey);
             const errorMsg = `Cannot create page "${folderName}" - an archived page with this title exists. Please permanently delete it from Confluence trash first: ${pageUrl}`;
             console.error(errorMsg);
             new Notice(errorMsg, 10000);
@@ -419,10 +2224,12 @@ export default class ConfluenceSyncPlugin extends Plugin {
             const newPage: ConfluencePage = await this.createPage(
               folderName,
               '<p>This page represents a folder in your Obsidian vault.</p>',
-              auth,
-              domain,
               currentParentId,
+              'current',
+              spaceKey,
             );
+            this.settings.folderPageIds.push(newPage.id);
+            await this.saveSettings();
             currentParentId = newPage.id;
           }
         }
@@ -432,722 +2239,1566 @@ export default class ConfluenceSyncPlugin extends Plugin {
     return currentParentId;
   }
 
+  async findTrackedPage(path: string): Promise<ConfluencePage | null> {
+    const synced = this.settings.syncedNotes[path];
+    if (!synced) return null;
+
+    const page = await this.api.findPage(synced.pageId);
+    if (!page) {
+      // The page was deleted in Confluence; fall back to a title lookup
+      console.warn(`Synced page for ${path} is gone`);
+      this.forgetCreatedPages([synced.pageId]);
+    }
+    return page;
+  }
+
   async findExistingPage(
     title: string,
-    auth: string,
-    domain: string,
     parentId: string | null = null,
+    spaceKey = this.settings.spaceId,
+  ): Promise<ConfluencePage | null> {
+    const pages = await this.api.findPages(spaceKey, title);
+
+    if (parentId === null) {
+      return pages[0] || null;
+    }
+
+    // Look for a page whose immediate parent matches the parentId
+    return pages.find((page) => page.parentId === parentId) || null;
+  }
+
+  async findArchivedPage(
+    title: string,
+    spaceKey = this.settings.spaceId,
   ): Promise<ConfluencePage | null> {
-    let searchUrl = `${domain}/wiki/rest/api/content?spaceKey=${this.settings.spaceId}&title=${encodeURIComponent(title)}&status=current&expand=version,ancestors`;
-
-    const response = await requestUrl({
-      url: searchUrl,
-      method: 'GET',
-      headers: {
-        Authorization: `Basic ${auth}`,
-        'Content-Type': 'application/json',
+    const pages = await this.api.findPages(spaceKey, title, 'archived');
+    return pages[0] || null;
+  }
+
+  async createPage(
+    title: string,
+    content: string,
+    parentId: string | null = null,
+    status: 'current' | 'draft' = 'current',
+    spaceKey = this.settings.spaceId,
+  ): Promise<ConfluencePage> {
+    const page = await this.api.createPage(
+      spaceKey,
+      title,
+      content,
+      parentId,
+      status,
+    );
+
+    this.settings.createdPageIds.push(page.id);
+    await this.saveSettings();
+
+    return page;
+  }
+
+  forgetCreatedPages(pageIds: string[]) {
+    this.settings.createdPageIds = this.settings.createdPageIds.filter(
+      (id) => !pageIds.includes(id),
+    );
+    this.settings.folderPageIds = this.settings.folderPageIds.filter(
+      (id) => !pageIds.includes(id),
+    );
+  }
+
+  async updatePage(
+    pageId: string,
+    title: string,
+    content: string,
+    currentVersion: number,
+    parentId: string | null = null,
+    publish: PublishOptions = {},
+    fromDraft = false,
+  ): Promise<ConfluencePage> {
+    return this.api.updatePage(
+      pageId,
+      title,
+      content,
+      {
+        number: currentVersion + 1,
+        minorEdit: publish.minorEdit,
+        message: publish.versionComment,
+      },
+      parentId,
+      fromDraft,
+    );
+  }
+
+  async convertMermaidToSvg(mermaidCode: string): Promise<ArrayBuffer> {
+    if (this.settings.mermaidRenderer === 'kroki') {
+      return this.renderMermaidWithKroki(mermaidCode);
+    }
+
+    try {
+      return await this.renderMermaidLocally(mermaidCode);
+    } catch (error) {
+      if (!this.settings.krokiUrl) {
+        throw new Error(`Failed to render Mermaid locally: ${error.message}`);
+      }
+      console.warn('Local Mermaid rendering failed, falling back to Kroki:', error);
+      return this.renderMermaidWithKroki(mermaidCode);
+    }
+  }
+
+  async renderMermaidLocally(mermaidCode: string): Promise<ArrayBuffer> {
+    const mermaid = await loadMermaid();
+
+    // Mermaid needs the diagram laid out in the DOM to measure it, so render
+    // into an invisible element outside the workspace
+    const container = document.body.createDiv(
+      'confluence-sync-mermaid-offscreen',
+    );
+
+    try {
+      const id = `confluence-sync-mermaid-${Date.now()}${Math.random().toString(36).substring(2)}`;
+      const result = await mermaid.render(id, mermaidCode, container);
+      container.innerHTML = typeof result === 'string' ? result : result.svg;
+
+      const svgEl = container.querySelector('svg');
+      if (!svgEl) {
+        throw new Error('Mermaid did not produce an SVG');
+      }
+
+      // Serialize as XML so HTML labels (e.g. <br>) are valid in a standalone file
+      svgEl.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+      const svg = new XMLSerializer().serializeToString(svgEl);
+      return new TextEncoder().encode(svg).buffer;
+    } finally {
+      container.remove();
+    }
+  }
+
+  async renderMermaidWithKroki(mermaidCode: string): Promise<ArrayBuffer> {
+    const krokiUrl = this.settings.krokiUrl.replace(/\/$/, '');
+    if (!krokiUrl) {
+      throw new Error('Set a Kroki URL in the Confluence Sync settings');
+    }
+
+    const url = `${krokiUrl}/mermaid/svg`;
+
+    try {
+      const response = await requestUrl({
+        url: url,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'text/plain',
+        },
+        body: mermaidCode,
+      });
+
+      if (response.status !== 200) {
+        throw new Error(`Kroki returned status ${response.status}`);
+      }
+
+      return response.arrayBuffer;
+    } catch (error) {
+      throw new Error(`Failed to convert Mermaid to SVG: ${error.message}`);
+    }
+  }
+
+  async syncLabels(pageId: string, labels: string[], previous: string[]) {
+    // Only labels missing from the page are added, and only labels the
+    // plugin applied before are removed
+    const current = await this.api.listLabels(pageId);
+
+    const missing = labels.filter((label) => !current.includes(label));
+    if (missing.length > 0) {
+      await this.api.addLabels(pageId, missing);
+    }
+
+    for (const label of previous) {
+      if (!labels.includes(label) && current.includes(label)) {
+        await this.api.removeLabel(pageId, label);
+      }
+    }
+  }
+
+  getAttachmentHash(attachment: ConfluenceAttachment): string | null {
+    const comment = attachment.comment || '';
+    return comment.startsWith(ATTACHMENT_HASH_PREFIX)
+      ? comment.slice(ATTACHMENT_HASH_PREFIX.length)
+      : null;
+  }
+
+  async syncAttachment(
+    pageId: string,
+    filename: string,
+    data: ArrayBuffer,
+    contentType: string,
+    existing: ConfluenceAttachment | undefined,
+    draft = false,
+  ): Promise<boolean> {
+    const hash = await this.hashContent(data);
+
+    if (existing) {
+      // Attachments from before hashes were stored only have a size to go by
+      const storedHash = this.getAttachmentHash(existing);
+      const unchanged = storedHash
+        ? storedHash === hash
+        : existing.fileSize === data.byteLength;
+      if (unchanged) return false;
+    }
+
+    await this.api.uploadAttachment(
+      pageId,
+      filename,
+      data,
+      contentType,
+      // Attachment changes should not notify watchers on their own; the
+      // page update that follows does
+      { minorEdit: 'true', comment: `${ATTACHMENT_HASH_PREFIX}${hash}` },
+      draft,
+    );
+    return true;
+  }
+
+  resolveAttachment(target: string, sourcePath: string): TFile | null {
+    // Resolve the embed like Obsidian does, falling back to the attachments folder
+    const file =
+      this.app.metadataCache.getFirstLinkpathDest(target, sourcePath) ||
+      this.app.vault.getAbstractFileByPath(
+        `${this.settings.attachmentsFolder}/${target}`,
+      );
+    return file instanceof TFile ? file : null;
+  }
+
+  async readAttachment(
+    target: string,
+    sourcePath: string,
+  ): Promise<{ data: ArrayBuffer; contentType: string }> {
+    try {
+      const file = this.resolveAttachment(target, sourcePath);
+      if (!file) {
+        throw new Error(`File not found: ${target}`);
+      }
+
+      const data = await this.app.vault.readBinary(file);
+
+      // Determine content type based on file extension
+      const contentType =
+        CONTENT_TYPES[file.extension.toLowerCase()] ||
+        'application/octet-stream';
+
+      return { data, contentType };
+    } catch (error) {
+      throw new Error(`Failed to read attachment ${target}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Writes a pulled attachment to the file the note embeds it by. Files the
+   * vault doesn't have yet go where the embed points: the attachments
+   * folder, or the folder in the embed path.
+   */
+  async writeAttachment(
+    attachment: PulledAttachment,
+    data: ArrayBuffer,
+    sourcePath: string,
+  ) {
+    const existing = this.resolveAttachment(attachment.target, sourcePath);
+    if (existing) {
+      const current = await this.app.vault.readBinary(existing);
+      const unchanged =
+        (await this.hashContent(current)) === (await this.hashContent(data));
+      if (!unchanged) {
+        await this.app.vault.modifyBinary(existing, data);
+      }
+      return;
+    }
+
+    const attachmentsFolder = this.settings.attachmentsFolder.replace(
+      /\/$/,
+      '',
+    );
+    const attachmentPath = attachment.target.includes('/')
+      ? attachment.target.replace(/^\/+/, '')
+      : [attachmentsFolder, attachment.target]
+          .filter((part) => part)
+          .join('/');
+    const folder = attachmentPath.split('/').slice(0, -1).join('/');
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+    await this.app.vault.createBinary(attachmentPath, data);
+  }
+
+  convertMarkdownToConfluence(
+    markdown: string,
+    sourcePath = '',
+    unresolvedLinks?: Set<string>,
+    unrendered?: Set<string>,
+  ): string {
+    return markdownToConfluence(markdown, {
+      attachmentsFolder: this.settings.attachmentsFolder,
+      unrendered,
+      resolveWikiLink: (linkPath: string) => {
+        const target = this.app.metadataCache.getFirstLinkpathDest(
+          linkPath,
+          sourcePath,
+        );
+        const page = target ? this.getNotePage(target) : null;
+        if (!page) unresolvedLinks?.add(linkPath);
+        return page;
+      },
+      renderEmbed: (target: string) =>
+        this.renderIncludeMacro(target, sourcePath),
+      mathMacros: {
+        inline: this.settings.mathInlineMacro,
+        block: this.settings.mathBlockMacro,
       },
     });
+  }
+
+  /**
+   * Replaces embeds of notes, headings and blocks that stand on their own
+   * line with the embedded markdown, recursively. Cycles and embeds nested
+   * past MAX_EMBED_DEPTH are left as embeds and published as links.
+   */
+  async expandNoteEmbeds(
+    markdown: string,
+    sourcePath: string,
+    stack: string[] = [`${sourcePath}#`],
+    problems?: string[],
+  ): Promise<string> {
+    const lines: string[] = [];
+    let fence: string | null = null;
+
+    for (const line of markdown.split('\n')) {
+      const fenceMatch = line.match(/^\s*(?:>\s*)*(`{3,}|~{3,})/);
+      if (fenceMatch) {
+        if (!fence) fence = fenceMatch[1];
+        else if (fenceMatch[1].startsWith(fence)) fence = null;
+      }
+      const match = fence || fenceMatch ? null : line.match(EMBED_LINE);
+      if (!match) {
+        lines.push(line);
+        continue;
+      }
+
+      const [, prefix, embeds] = match;
+      const parts: string[] = [];
+      let expanded = false;
+      for (const [embed, link] of embeds.matchAll(
+        /!\[\[([^\]|]+)[^\]]*\]\]/g,
+      )) {
+        const content = await this.expandNoteEmbed(
+          link.trim(),
+          sourcePath,
+          stack,
+          problems,
+        );
+        if (content !== null) expanded = true;
+        parts.push(content ?? embed);
+      }
+      if (!expanded) {
+        lines.push(line);
+        continue;
+      }
+
+      // Continuation lines line up under a list item's content
+      const indent = prefix.replace(/[-*+]|\d+[.)]/g, (marker) =>
+        ' '.repeat(marker.length),
+      );
+      const content = parts.join('\n\n').split('\n');
+      const isListItem = indent !== prefix;
+      lines.push(
+        ...(isListItem ? [] : [indent.trimEnd()]),
+        `${prefix}${content[0]}`,
+        ...content.slice(1).map((text) => `${indent}${text}`.trimEnd()),
+        ...(isListItem ? [] : [indent.trimEnd()]),
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  async expandNoteEmbed(
+    link: string,
+    sourcePath: string,
+    stack: string[],
+    problems?: string[],
+  ): Promise<string | null> {
+    const [linkPath, ...subpath] = link.split('#');
+    const section = subpath.join('#').trim();
+    const file = this.app.metadataCache.getFirstLinkpathDest(
+      linkPath.trim(),
+      sourcePath,
+    );
+    // Files keep their attachment rendering; missing notes become links
+    if (!file || file.extension !== 'md') return null;
+
+    if (
+      !section &&
+      this.settings.noteEmbeds === 'include' &&
+      this.getNotePageId(file)
+    ) {
+      return null;
+    }
+
+    const key = `${file.path}#${section}`;
+    if (stack.includes(key)) {
+      problems?.push(
+        `Embedded note ${link} embeds itself and is published as a link`,
+      );
+      return null;
+    }
+    if (stack.length > MAX_EMBED_DEPTH) {
+      problems?.push(
+        `Embedded note ${link} is nested more than ${MAX_EMBED_DEPTH} levels deep and is published as a link`,
+      );
+      return null;
+    }
+
+    const content = this.extractSection(
+      await this.app.vault.cachedRead(file),
+      file,
+      section,
+    );
+    if (content === null) {
+      problems?.push(
+        `Section ${link} was not found and is published as a link`,
+      );
+      return null;
+    }
 
-    if (response.status !== 200) {
-      throw new Error(`Failed to search for page: ${response.status}`);
+    // Block ids only mean something in the vault
+    return this.expandNoteEmbeds(
+      content.replace(/(^|[ \t]+)\^[\w-]+[ \t]*$/gm, '').trim(),
+      file.path,
+      [...stack, key],
+      problems,
+    );
+  }
+
+  /**
+   * Puts the local embed lines back in place of the content they were
+   * published as. An embed whose content can't be found in the pulled
+   * markdown, because it was edited in Confluence, stays expanded.
+   */
+  async restoreNoteEmbeds(
+    markdown: string,
+    localBody: string,
+    sourcePath: string,
+  ): Promise<{ markdown: string; expanded: number }> {
+    let restored = markdown;
+    let position = 0;
+    let expanded = 0;
+    let fence: string | null = null;
+
+    for (const line of localBody.split('\n')) {
+      const fenceMatch = line.match(/^\s*(?:>\s*)*(`{3,}|~{3,})/);
+      if (fenceMatch) {
+        if (!fence) fence = fenceMatch[1];
+        else if (fenceMatch[1].startsWith(fence)) fence = null;
+      }
+      if (fence || fenceMatch || !EMBED_LINE.test(line)) continue;
+
+      const content = await this.expandNoteEmbeds(line, sourcePath);
+      if (content === line) continue;
+
+      // The embedded content as it comes back from Confluence
+      const published = this.convertConfluenceToMarkdown(
+        this.convertMarkdownToConfluence(content, sourcePath),
+        content,
+        sourcePath,
+      ).markdown.trim();
+      const index = published ? restored.indexOf(published, position) : -1;
+      if (index === -1) {
+        expanded++;
+        continue;
+      }
+      restored =
+        restored.slice(0, index) +
+        line.trimStart() +
+        restored.slice(index + published.length);
+      position = index + line.trimStart().length;
     }
 
-    const data = response.json;
+    return { markdown: restored, expanded };
+  }
 
-    if (!data.results || data.results.length === 0) {
-      return null;
+  /**
+   * The part of a note an embed shows: the body, a heading with everything
+   * up to the next heading of the same or a higher level, or a `^block`.
+   */
+  extractSection(
+    content: string,
+    file: TFile,
+    section: string,
+  ): string | null {
+    if (!section) return this.parseFrontmatter(content).body;
+
+    const cache = this.app.metadataCache.getFileCache(file);
+
+    if (section.startsWith('^')) {
+      const id = section.slice(1);
+      const block = cache?.blocks?.[id] || cache?.blocks?.[id.toLowerCase()];
+      if (!block) return null;
+      return content.slice(
+        block.position.start.offset,
+        block.position.end.offset,
+      );
     }
 
-    // Filter out archived pages (extra safety check)
-    const activePages = data.results.filter(
-      (page: any) => page.status !== 'archived',
+    // Nested headings are written Note#Parent#Child; the last one counts
+    const name = section
+      .slice(section.lastIndexOf('#') + 1)
+      .trim()
+      .toLowerCase();
+    const headings = cache?.headings || [];
+    const index = headings.findIndex(
+      (heading) => heading.heading.trim().toLowerCase() === name,
+    );
+    if (index === -1) return null;
+
+    const { level, position } = headings[index];
+    const next = headings
+      .slice(index + 1)
+      .find((heading) => heading.level <= level);
+    return content.slice(
+      position.start.offset,
+      next ? next.position.start.offset : content.length,
     );
+  }
 
-    if (activePages.length === 0) {
-      return null;
+  /**
+   * Replaces dataview blocks with the results of their queries, run by the
+   * Dataview plugin, in an info panel that pulling turns back into the query.
+   * Queries stay code blocks when Dataview is not enabled or the query fails.
+   */
+  async freezeDataviewQueries(
+    markdown: string,
+    sourcePath: string,
+    problems?: string[],
+  ): Promise<string> {
+    const queries = collectDataviewQueries(markdown);
+    if (queries.length === 0) {
+      return markdown;
     }
 
-    if (parentId === null) {
-      return activePages[0];
+    const plugins = (this.app as AppWithPlugins).plugins?.plugins;
+    const dataview = plugins?.dataview?.api;
+    if (!dataview) {
+      problems?.push(
+        'Dataview is not enabled, so its queries are published as code, not as their results',
+      );
+      return markdown;
     }
 
-    // Look for a page whose immediate parent matches the parentId
-    for (const page of activePages) {
-      const ancestors: ConfluencePage[] = page.ancestors || [];
-
-      // Check if the immediate parent (last ancestor) matches
-      if (ancestors.length > 0) {
-        const immediateParent = ancestors[ancestors.length - 1];
-        if (immediateParent.id === parentId) {
-          return page;
-        }
+    const lines = markdown.split('\n');
+    // From the end so the line numbers of earlier queries stay valid
+    for (const query of [...queries].reverse()) {
+      let result: string;
+      try {
+        result = (await this.runDataviewQuery(dataview, query, sourcePath))
+          .trim();
+      } catch (error) {
+        problems?.push(
+          `Dataview query is published as code because it failed: ${error.message}`,
+        );
+        continue;
       }
+
+      const [start, end] = query.map;
+      const prefix = lines[start].match(
+        /^\s*(?:>\s*)*(?:(?:[-*+]|\d+[.)])\s+)?/,
+      )?.[0] || '';
+      const indent = prefix.replace(/[-*+]|\d+[.)]/g, (marker) =>
+        ' '.repeat(marker.length),
+      );
+      const panel = [
+        `> [!info] ${DATAVIEW_SNAPSHOT_TITLE}`,
+        ...(result || '*No results*').split('\n').map((line) => `> ${line}`),
+      ];
+      const isListItem = indent !== prefix;
+      lines.splice(
+        start,
+        end - start,
+        ...(isListItem ? [] : [indent.trimEnd()]),
+        `${prefix}${panel[0]}`,
+        ...panel.slice(1).map((line) => `${indent}${line}`.trimEnd()),
+        ...(isListItem ? [] : [indent.trimEnd()]),
+      );
     }
 
-    return null;
+    return lines.join('\n');
   }
 
-  async findArchivedPage(
-    title: string,
-    auth: string,
-    domain: string,
-  ): Promise<ConfluencePage | null> {
-    let searchUrl = `${domain}/wiki/rest/api/content?spaceKey=${this.settings.spaceId}&title=${encodeURIComponent(title)}&status=archived&expand=version`;
-
-    const response = await requestUrl({
-      url: searchUrl,
-      method: 'GET',
-      headers: {
-        Authorization: `Basic ${auth}`,
-        'Content-Type': 'application/json',
-      },
-    });
+  /**
+   * Markdown of the results of a query. dataview queries have a markdown
+   * renderer; dataviewjs scripts render HTML, which is converted back.
+   */
+  async runDataviewQuery(
+    dataview: DataviewApi,
+    query: { language: 'dataview' | 'dataviewjs'; source: string },
+    sourcePath: string,
+  ): Promise<string> {
+    if (query.language === 'dataview') {
+      const result = await dataview.queryMarkdown(query.source, sourcePath);
+      if (!result.successful) {
+        throw new Error(result.error);
+      }
+      return result.value;
+    }
 
-    if (response.status !== 200) {
-      return null;
+    const container = createDiv();
+    const component = new Component();
+    component.load();
+    try {
+      await dataview.executeJs(query.source, container, component, sourcePath);
+      await waitForMutations(
+        container,
+        DATAVIEW_SETTLE_TIME,
+        DATAVIEW_RENDER_TIMEOUT,
+      );
+
+      const error = container.querySelector('.dataview-error');
+      if (error) {
+        throw new Error(error.textContent?.trim() || 'Script failed');
+      }
+      // Result counts shown next to table and list headers
+      container
+        .querySelectorAll('.dataview.small-text')
+        .forEach((count) => count.remove());
+
+      return convertHtmlToMarkdown(container);
+    } finally {
+      component.unload();
     }
+  }
 
-    const data = response.json;
+  renderIncludeMacro(link: string, sourcePath: string): string | null {
+    if (this.settings.noteEmbeds !== 'include' || link.includes('#')) {
+      return null;
+    }
 
-    if (!data.results || data.results.length === 0) {
+    const file = this.app.metadataCache.getFirstLinkpathDest(
+      link.trim(),
+      sourcePath,
+    );
+    const page = file && file.extension === 'md' ? this.getNotePage(file) : null;
+    if (!page) {
       return null;
     }
 
-    return data.results[0];
+    const { title, spaceKey } = page;
+    const attribute = (value: string) =>
+      value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/"/g, '&quot;');
+    return `<ac:structured-macro ac:name="include"><ac:parameter ac:name=""><ac:link><ri:page ri:space-key="${attribute(spaceKey)}" ri:content-title="${attribute(title)}" /></ac:link></ac:parameter></ac:structured-macro>`;
   }
 
-  async getPageAncestors(
-    pageId: string,
-    auth: string,
-    domain: string,
-  ): Promise<ConfluencePage[]> {
-    const url = `${domain}/wiki/rest/api/content/${pageId}?expand=ancestors`;
-
-    const response = await requestUrl({
-      url: url,
-      method: 'GET',
-      headers: {
-        Authorization: `Basic ${auth}`,
-        'Content-Type': 'application/json',
+  /**
+   * Mermaid diagrams, formulas, Dataview queries and embedded files are put
+   * back as the local note has them.
+   */
+  convertConfluenceToMarkdown(
+    storage: string,
+    localMarkdown = '',
+    sourcePath = '',
+  ): { markdown: string; attachments: PulledAttachment[] } {
+    return confluenceToMarkdown(storage, {
+      localMarkdown,
+      mathMacros: {
+        inline: this.settings.mathInlineMacro,
+        block: this.settings.mathBlockMacro,
       },
+      resolvePageLink: (page: LinkedPage, anchor: string) =>
+        this.resolvePageLink(page, anchor, sourcePath),
     });
+  }
+}
 
-    if (response.status !== 200) {
-      return [];
-    }
+class ConfluencePreviewView extends ItemView {
+  plugin: ConfluenceSyncPlugin;
+  file: TFile | null = null;
 
-    const data = response.json;
-    return data.ancestors || [];
+  constructor(leaf: WorkspaceLeaf, plugin: ConfluenceSyncPlugin) {
+    super(leaf);
+    this.plugin = plugin;
   }
 
-  async createPage(
-    title: string,
-    content: string,
-    auth: string,
-    domain: string,
-    parentId: string | null = null,
-  ): Promise<ConfluencePage> {
-    const url = `${domain}/wiki/rest/api/content`;
+  getViewType() {
+    return PREVIEW_VIEW_TYPE;
+  }
 
-    const body: any = {
-      type: 'page',
-      title: title,
-      space: {
-        key: this.settings.spaceId,
-      },
-      body: {
-        storage: {
-          value: content,
-          representation: 'storage',
-        },
-      },
-    };
+  getDisplayText() {
+    return 'Confluence preview';
+  }
 
-    if (parentId) {
-      body.ancestors = [{ id: parentId }];
-    }
+  getIcon() {
+    return 'eye';
+  }
+
+  async onOpen() {
+    // Follow the note being edited once the view is open
+    this.registerEvent(
+      this.app.workspace.on('file-open', (file) => {
+        if (file && file.extension === 'md') this.showFile(file);
+      }),
+    );
+  }
 
+  async showFile(file: TFile) {
+    this.file = file;
+    const contentEl = this.containerEl.children[1] as HTMLElement;
+    contentEl.empty();
+    contentEl.addClass('confluence-sync-preview');
+
+    let preview: PagePreview;
     try {
-      const response = await requestUrl({
-        url: url,
-        method: 'POST',
-        headers: {
-          Authorization: `Basic ${auth}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(body),
-        throw: false, // Don't throw on non-2xx status
+      preview = await this.plugin.buildPreview(file);
+    } catch (error) {
+      contentEl.createEl('p', { text: `Cannot preview: ${error.message}` });
+      return;
+    }
+    // Another note may have been opened while this one was converted
+    if (this.file !== file) return;
+
+    contentEl.createEl('h4', { text: preview.title });
+    const metaEl = contentEl.createDiv('confluence-sync-preview-meta');
+    metaEl.createSpan({ text: `Space ${preview.spaceKey}` });
+    const refreshBtn = metaEl.createEl('button', { text: 'Refresh' });
+    refreshBtn.addEventListener('click', () => this.showFile(file));
+
+    contentEl.createEl('h5', { text: 'Pages' });
+    const pagesEl = contentEl.createEl('ul');
+    this.renderPages(file, pagesEl);
+
+    contentEl.createEl('h5', { text: 'Issues' });
+    if (preview.issues.length === 0) {
+      contentEl.createEl('p', { text: 'Everything converts as written.' });
+    } else {
+      const issuesEl = contentEl.createEl('ul', {
+        cls: 'confluence-sync-preview-issues',
       });
-
-      if (response.status !== 200 && response.status !== 201) {
-        const errorDetail = response.json?.message || response.text;
-        throw new Error(
-          `Failed to create page "${title}": ${response.status} - ${errorDetail}`,
-        );
+      for (const issue of preview.issues) {
+        issuesEl.createEl('li', {
+          text: issue.line
+            ? `Line ${issue.line}: ${issue.message}`
+            : issue.message,
+        });
       }
+    }
+
+    contentEl.createEl('h5', { text: 'Rendered' });
+    const renderedEl = contentEl.createDiv('confluence-sync-preview-rendered');
+    await MarkdownRenderer.render(
+      this.app,
+      preview.markdown,
+      renderedEl,
+      file.path,
+      this,
+    );
+
+    const storageEl = contentEl.createEl('details');
+    storageEl.createEl('summary', { text: 'Storage format' });
+    storageEl.createEl('pre', {
+      text: preview.storage,
+      cls: 'confluence-sync-preview-storage',
+    });
+  }
+
+  async renderPages(file: TFile, listEl: HTMLElement) {
+    if (!this.plugin.validateSettings()) {
+      listEl.createEl('li', {
+        text: 'Configure Confluence settings to see which pages would change',
+      });
+      return;
+    }
 
-      return response.json;
+    const loadingEl = listEl.createEl('li', { text: 'Looking up pages...' });
+    try {
+      const pages = await this.plugin.planPages(file);
+      loadingEl.remove();
+      const labels: Record<PlannedPage['action'], string> = {
+        create: 'create',
+        update: 'update',
+        move: 'move here (its content is replaced)',
+        unchanged: 'exists',
+        archived: 'blocked by an archived page with this title',
+        taken: 'blocked by a page with this title elsewhere in the space',
+      };
+      for (const page of pages) {
+        listEl.createEl('li', {
+          text: `${page.title}: ${labels[page.action]}`,
+          cls: `is-${page.action}`,
+        });
+      }
     } catch (error) {
-      throw new Error(`Failed to create page "${title}": ${error.message}`);
+      loadingEl.setText(`Could not look up pages: ${error.message}`);
     }
   }
+}
 
-  async updatePage(
-    pageId: string,
-    title: string,
-    content: string,
-    currentVersion: number,
-    auth: string,
-    domain: string,
-    parentId: string | null = null,
-  ): Promise<ConfluencePage> {
-    const url = `${domain}/wiki/rest/api/content/${pageId}`;
+class ConfluenceStatusView extends ItemView {
+  plugin: ConfluenceSyncPlugin;
+  rendering = 0;
 
-    const body: any = {
-      version: {
-        number: currentVersion + 1,
-      },
-      title: title,
-      type: 'page',
-      body: {
-        storage: {
-          value: content,
-          representation: 'storage',
-        },
-      },
-    };
+  constructor(leaf: WorkspaceLeaf, plugin: ConfluenceSyncPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return STATUS_VIEW_TYPE;
+  }
+
+  getDisplayText() {
+    return 'Confluence sync status';
+  }
+
+  getIcon() {
+    return 'history';
+  }
+
+  async onOpen() {
+    // Dirty markers follow edits, without re-hashing on every keystroke
+    const refresh = debounce(() => this.render(), 2000, true);
+    this.registerEvent(
+      this.app.vault.on('modify', (file) => {
+        if (this.plugin.settings.syncedNotes[file.path]) refresh();
+      }),
+    );
+    this.registerEvent(this.app.vault.on('rename', () => refresh()));
+    await this.render();
+  }
+
+  async render() {
+    const rendering = ++this.rendering;
+    const contentEl = this.containerEl.children[1] as HTMLElement;
 
-    if (parentId) {
-      body.ancestors = [{ id: parentId }];
+    // Build off-screen so a slow render doesn't flash an empty view
+    const el = createDiv('confluence-sync-status');
+    await this.renderNotes(el);
+    if (rendering !== this.rendering) return;
+    this.renderLog(el);
+
+    contentEl.empty();
+    contentEl.appendChild(el);
+  }
+
+  async renderNotes(el: HTMLElement) {
+    el.createEl('h5', { text: 'Synced notes' });
+
+    const notes = Object.entries(this.plugin.settings.syncedNotes).sort(
+      ([, a], [, b]) => (b.syncedAt || 0) - (a.syncedAt || 0),
+    );
+    if (notes.length === 0) {
+      el.createEl('p', { text: 'No notes have been synced yet.' });
+      return;
     }
 
-    try {
-      const response = await requestUrl({
-        url: url,
-        method: 'PUT',
-        headers: {
-          Authorization: `Basic ${auth}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(body),
+    const listEl = el.createEl('ul', { cls: 'confluence-sync-status-notes' });
+    for (const [path, synced] of notes) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      const itemEl = listEl.createEl('li');
+
+      const nameEl = itemEl.createEl('a', {
+        text: file instanceof TFile ? file.basename : path,
+        cls: 'confluence-sync-status-note',
+      });
+      nameEl.addEventListener('click', () => {
+        if (file instanceof TFile) this.app.workspace.getLeaf().openFile(file);
       });
 
-      if (response.status !== 200) {
-        const errorDetail = response.json?.message || response.text;
-        throw new Error(
-          `Failed to update page "${title}": ${response.status} - ${errorDetail}`,
-        );
+      if (file instanceof TFile && (await this.plugin.hasLocalChanges(file))) {
+        itemEl.createSpan({
+          text: ' ●',
+          cls: 'confluence-sync-status-dirty',
+          attr: { title: 'Changed since the last sync' },
+        });
       }
 
-      return response.json;
-    } catch (error) {
-      throw new Error(`Failed to update page "${title}": ${error.message}`);
+      const metaEl = itemEl.createDiv('confluence-sync-status-meta');
+      metaEl.createSpan({
+        text: `v${synced.version} · ${
+          synced.syncedAt
+            ? new Date(synced.syncedAt).toLocaleString()
+            : 'synced before history was kept'
+        } · `,
+      });
+      const confluenceUrl =
+        file instanceof TFile
+          ? this.app.metadataCache.getFileCache(file)?.frontmatter?.confluence
+          : null;
+      metaEl.createEl('a', {
+        text: 'Open page',
+        href:
+          typeof confluenceUrl === 'string'
+            ? confluenceUrl
+            : this.plugin.getPageUrl(synced.pageId),
+      });
     }
   }
 
-  async convertMermaidToSvg(mermaidCode: string): Promise<ArrayBuffer> {
-    const url = `https://kroki.io/mermaid/svg`;
+  renderLog(el: HTMLElement) {
+    const headerEl = el.createDiv('confluence-sync-status-header');
+    headerEl.createEl('h5', { text: 'Recent activity' });
 
-    try {
-      const response = await requestUrl({
-        url: url,
-        method: 'POST',
-        headers: {
-          'Content-Type': 'text/plain',
-        },
-        body: mermaidCode,
+    const log = this.plugin.settings.syncLog;
+    if (log.length === 0) {
+      el.createEl('p', { text: 'Nothing has been synced yet.' });
+      return;
+    }
+
+    const clearBtn = headerEl.createEl('button', { text: 'Clear' });
+    clearBtn.addEventListener('click', async () => {
+      this.plugin.settings.syncLog = [];
+      await this.plugin.saveSettings();
+      this.render();
+    });
+
+    const listEl = el.createEl('ul', { cls: 'confluence-sync-status-log' });
+    for (const entry of log) {
+      const itemEl = listEl.createEl('li', {
+        cls: entry.error ? 'is-failed' : 'is-ok',
+      });
+      const verb = entry.action === 'pull' ? 'Pull' : 'Sync';
+      itemEl.createDiv({
+        text: `${entry.error ? '✗' : '✓'} ${verb} ${entry.path}`,
+      });
+      itemEl.createDiv({
+        text: new Date(entry.time).toLocaleString(),
+        cls: 'confluence-sync-status-meta',
       });
 
-      if (response.status !== 200) {
-        throw new Error(`Kroki returned status ${response.status}`);
+      if (entry.error) {
+        const detailsEl = itemEl.createEl('details');
+        detailsEl.createEl('summary', { text: 'Error details' });
+        detailsEl.createEl('pre', {
+          text: entry.error,
+          cls: 'confluence-sync-status-error',
+        });
+
+        const retryBtn = itemEl.createEl('button', { text: 'Retry' });
+        retryBtn.addEventListener('click', async () => {
+          retryBtn.disabled = true;
+          await this.plugin.retrySync(entry);
+          retryBtn.disabled = false;
+        });
       }
+    }
+  }
+}
 
-      return response.arrayBuffer;
+class ConfluenceCommentsView extends ItemView {
+  plugin: ConfluenceSyncPlugin;
+  file: TFile | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: ConfluenceSyncPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return COMMENTS_VIEW_TYPE;
+  }
+
+  getDisplayText() {
+    return 'Confluence comments';
+  }
+
+  getIcon() {
+    return 'message-square';
+  }
+
+  async onOpen() {
+    // Follow the note being edited once the view is open
+    this.registerEvent(
+      this.app.workspace.on('file-open', (file) => {
+        if (file && file.extension === 'md') this.showFile(file);
+      }),
+    );
+  }
+
+  /**
+   * @param pull Also update the note's comments section, if enabled
+   */
+  async showFile(file: TFile, pull = false) {
+    this.file = file;
+    const contentEl = this.containerEl.children[1] as HTMLElement;
+    contentEl.empty();
+    contentEl.addClass('confluence-sync-comments');
+
+    const headerEl = contentEl.createDiv('confluence-sync-comments-header');
+    headerEl.createEl('h4', { text: file.basename });
+    const refreshBtn = headerEl.createEl('button', { text: 'Refresh' });
+    refreshBtn.addEventListener('click', () => this.showFile(file, pull));
+
+    if (!this.plugin.validateSettings()) {
+      contentEl.createEl('p', {
+        text: 'Configure Confluence settings to see comments',
+      });
+      return;
+    }
+
+    const statusEl = contentEl.createEl('p', { text: 'Loading comments...' });
+    let comments: ConfluenceComment[];
+    try {
+      comments = pull
+        ? await this.plugin.pullComments(file)
+        : await this.plugin.fetchComments(file);
     } catch (error) {
-      throw new Error(`Failed to convert Mermaid to SVG: ${error.message}`);
+      statusEl.setText(`Cannot load comments: ${error.message}`);
+      return;
+    }
+    // Another note may have been opened while the comments loaded
+    if (this.file !== file) return;
+
+    const ids = new Set(comments.map((comment) => comment.id));
+    const threads = comments.filter(
+      (comment) => !(comment.parentId && ids.has(comment.parentId)),
+    );
+    if (threads.length === 0) {
+      statusEl.setText('This page has no comments.');
+      return;
+    }
+    statusEl.remove();
+
+    // Open threads first, resolved ones at the end
+    threads.sort((a, b) => Number(a.resolved) - Number(b.resolved));
+    for (const thread of threads) {
+      const threadEl = contentEl.createDiv({
+        cls: [
+          'confluence-sync-comments-thread',
+          ...(thread.resolved ? ['is-resolved'] : []),
+        ],
+      });
+      await this.renderComment(threadEl, thread, comments, file);
+      this.renderActions(threadEl, thread, file, pull);
     }
   }
 
-  createMultipartBody(
-    boundary: string,
-    filename: string,
-    fileContent: string,
-  ): ArrayBuffer {
-    const encoder = new TextEncoder();
-    const parts: Uint8Array[] = [];
-
-    // Add boundary and headers
-    const header = [
-      `--${boundary}`,
-      `Content-Disposition: form-data; name="file"; filename="${filename}"`,
-      'Content-Type: image/svg+xml',
-      '',
-      '',
-    ].join('\r\n');
+  async renderComment(
+    el: HTMLElement,
+    comment: ConfluenceComment,
+    comments: ConfluenceComment[],
+    file: TFile,
+  ) {
+    const metaEl = el.createDiv('confluence-sync-comments-meta');
+    metaEl.createSpan({
+      text: `${comment.author} · ${new Date(comment.created).toLocaleString()}`,
+    });
+    if (comment.resolved) {
+      metaEl.createSpan({ text: ' · Resolved' });
+    }
 
-    parts.push(encoder.encode(header));
-    parts.push(encoder.encode(fileContent));
-    parts.push(encoder.encode(`\r\n--${boundary}--\r\n`));
+    if (comment.selection) {
+      el.createEl('blockquote', {
+        text: comment.selection,
+        cls: 'confluence-sync-comments-selection',
+      });
+    }
 
-    // Calculate total length
-    const totalLength = parts.reduce((sum, part) => sum + part.length, 0);
+    const bodyEl = el.createDiv('confluence-sync-comments-body');
+    await MarkdownRenderer.render(
+      this.app,
+      this.plugin.convertConfluenceToMarkdown(comment.body).markdown,
+      bodyEl,
+      file.path,
+      this,
+    );
 
-    // Combine all parts
-    const result = new Uint8Array(totalLength);
-    let offset = 0;
-    for (const part of parts) {
-      result.set(part, offset);
-      offset += part.length;
+    for (const reply of comments.filter((c) => c.parentId === comment.id)) {
+      const replyEl = el.createDiv('confluence-sync-comments-reply');
+      await this.renderComment(replyEl, reply, comments, file);
     }
-
-    return result.buffer;
   }
 
-  async uploadAttachment(
-    pageId: string,
-    filename: string,
-    data: ArrayBuffer,
-    auth: string,
-    domain: string,
-  ): Promise<string> {
-    // Use PUT to create or update attachment (upsert)
-    const url = `${domain}/wiki/rest/api/content/${pageId}/child/attachment`;
-
-    // Create multipart form data
-    const boundary =
-      '----WebKitFormBoundary' + Math.random().toString(36).substring(2);
-    const svgContent = new TextDecoder().decode(data);
-    const body = this.createMultipartBody(boundary, filename, svgContent);
-
-    const response = await requestUrl({
-      url: url,
-      method: 'PUT',
-      headers: {
-        Authorization: `Basic ${auth}`,
-        'X-Atlassian-Token': 'nocheck',
-        'Content-Type': `multipart/form-data; boundary=${boundary}`,
-      },
-      body: body,
+  renderActions(
+    el: HTMLElement,
+    thread: ConfluenceComment,
+    file: TFile,
+    pull: boolean,
+  ) {
+    const actionsEl = el.createDiv('confluence-sync-comments-actions');
+
+    const replyBtn = actionsEl.createEl('button', { text: 'Reply' });
+    replyBtn.addEventListener('click', () => {
+      replyBtn.disabled = true;
+      const formEl = el.createDiv('confluence-sync-comments-form');
+      const input = formEl.createEl('textarea', {
+        attr: { rows: '3', placeholder: 'Reply in Markdown' },
+      });
+      const sendBtn = formEl.createEl('button', {
+        text: 'Send',
+        cls: 'mod-cta',
+      });
+      sendBtn.addEventListener('click', async () => {
+        if (!input.value.trim()) return;
+        sendBtn.disabled = true;
+        try {
+          await this.plugin.replyToComment(file, thread, input.value);
+          await this.showFile(file, pull);
+        } catch (error) {
+          new Notice(`Failed to reply: ${error.message}`);
+          sendBtn.disabled = false;
+        }
+      });
+      input.focus();
     });
 
-    if (response.status !== 200) {
-      throw new Error(
-        `Failed to upload attachment: ${response.status} - ${response.text}`,
-      );
+    if (
+      thread.location === 'inline' &&
+      !thread.resolved &&
+      this.plugin.api.isCloud
+    ) {
+      const resolveBtn = actionsEl.createEl('button', { text: 'Resolve' });
+      resolveBtn.addEventListener('click', async () => {
+        resolveBtn.disabled = true;
+        try {
+          await this.plugin.api.resolveComment(thread);
+          await this.showFile(file, pull);
+        } catch (error) {
+          new Notice(`Failed to resolve comment: ${error.message}`);
+          resolveBtn.disabled = false;
+        }
+      });
     }
+  }
+}
 
-    const data_response = response.json;
-    return data_response.results[0].id;
+class ConflictModal extends Modal {
+  details: ConflictDetails;
+  onChoose: (resolution: ConflictResolution) => void;
+  resolution: ConflictResolution = 'cancel';
+  diffEl: HTMLDivElement;
+
+  constructor(
+    app: App,
+    details: ConflictDetails,
+    onChoose: (resolution: ConflictResolution) => void,
+  ) {
+    super(app);
+    this.details = details;
+    this.onChoose = onChoose;
   }
 
-  async readImageAttachment(
-    filename: string,
-  ): Promise<{ data: ArrayBuffer; contentType: string }> {
-    const attachmentPath = `${this.settings.attachmentsFolder}/${filename}`;
+  onOpen() {
+    const { contentEl, details } = this;
+    contentEl.empty();
+    contentEl.addClass('confluence-sync-conflict');
 
-    try {
-      const file = this.app.vault.getAbstractFileByPath(attachmentPath);
+    contentEl.createEl('h2', { text: 'Confluence page has changed' });
+    contentEl.createEl('p', {
+      text: `"${details.title}" was edited in Confluence since your last sync (version ${details.syncedVersion} → ${details.remoteVersion}).`,
+    });
+    if (details.localChanged) {
+      contentEl.createEl('p', {
+        text: 'The note has also changed locally, so overwriting or pulling will discard one side of the edits.',
+      });
+    }
 
-      if (!file || !(file instanceof TFile)) {
-        throw new Error(`File not found: ${attachmentPath}`);
-      }
+    const buttons = contentEl.createDiv('confluence-sync-conflict-buttons');
 
-      const data = await this.app.vault.readBinary(file);
+    const overwriteBtn = buttons.createEl('button', {
+      text: 'Overwrite Confluence',
+      cls: 'mod-warning',
+    });
+    overwriteBtn.addEventListener('click', () => this.choose('overwrite'));
 
-      // Determine content type based on file extension
-      const extension = filename.toLowerCase().split('.').pop();
-      let contentType = 'application/octet-stream';
-      if (extension === 'png') contentType = 'image/png';
-      else if (extension === 'jpg' || extension === 'jpeg')
-        contentType = 'image/jpeg';
+    const pullBtn = buttons.createEl('button', { text: 'Pull remote' });
+    pullBtn.addEventListener('click', () => this.choose('pull'));
 
-      return { data, contentType };
-    } catch (error) {
-      throw new Error(
-        `Failed to read attachment ${filename}: ${error.message}`,
-      );
-    }
+    const diffBtn = buttons.createEl('button', { text: 'Show diff' });
+    diffBtn.addEventListener('click', () => {
+      const isHidden = this.diffEl.hasClass('is-hidden');
+      this.diffEl.toggleClass('is-hidden', !isHidden);
+      diffBtn.setText(isHidden ? 'Hide diff' : 'Show diff');
+    });
+
+    const cancelBtn = buttons.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.choose('cancel'));
+
+    this.diffEl = contentEl.createDiv('confluence-sync-diff is-hidden');
+    this.renderDiff();
   }
 
-  createMultipartBodyBinary(
-    boundary: string,
-    filename: string,
-    fileData: ArrayBuffer,
-    contentType: string,
-  ): ArrayBuffer {
-    const encoder = new TextEncoder();
-    const parts: Uint8Array[] = [];
-
-    // Add boundary and headers
-    const header = [
-      `--${boundary}`,
-      `Content-Disposition: form-data; name="file"; filename="${filename}"`,
-      `Content-Type: ${contentType}`,
-      '',
-      '',
-    ].join('\r\n');
+  onClose() {
+    this.contentEl.empty();
+    this.onChoose(this.resolution);
+  }
+
+  choose(resolution: ConflictResolution) {
+    this.resolution = resolution;
+    this.close();
+  }
 
-    parts.push(encoder.encode(header));
-    parts.push(new Uint8Array(fileData));
-    parts.push(encoder.encode(`\r\n--${boundary}--\r\n`));
+  renderDiff() {
+    const table = this.diffEl.createEl('table');
+    const header = table.createEl('tr');
+    header.createEl('th', { text: 'Local note' });
+    header.createEl('th', { text: 'Confluence' });
 
-    // Calculate total length
-    const totalLength = parts.reduce((sum, part) => sum + part.length, 0);
+    const rows = diffLines(
+      this.details.localMarkdown.trim().split('\n'),
+      this.details.remoteMarkdown.trim().split('\n'),
+    );
 
-    // Combine all parts
-    const result = new Uint8Array(totalLength);
-    let offset = 0;
-    for (const part of parts) {
-      result.set(part, offset);
-      offset += part.length;
+    for (const row of rows) {
+      const tr = table.createEl('tr');
+      const left = tr.createEl('td', { text: row.left ?? '' });
+      const right = tr.createEl('td', { text: row.right ?? '' });
+      if (row.left !== row.right) {
+        left.addClass(row.left === undefined ? 'is-empty' : 'is-removed');
+        right.addClass(row.right === undefined ? 'is-empty' : 'is-added');
+      }
     }
+  }
+}
 
-    return result.buffer;
+class VersionCommentModal extends Modal {
+  onSubmit: (comment: string | null) => void;
+  comment: string | null = null;
+
+  constructor(app: App, onSubmit: (comment: string | null) => void) {
+    super(app);
+    this.onSubmit = onSubmit;
   }
 
-  async uploadBinaryAttachment(
-    pageId: string,
-    filename: string,
-    data: ArrayBuffer,
-    contentType: string,
-    auth: string,
-    domain: string,
-  ): Promise<string> {
-    // Use PUT to create or update attachment (upsert)
-    const url = `${domain}/wiki/rest/api/content/${pageId}/child/attachment`;
-
-    // Create multipart form data with binary content
-    const boundary =
-      '----WebKitFormBoundary' + Math.random().toString(36).substring(2);
-    const body = this.createMultipartBodyBinary(
-      boundary,
-      filename,
-      data,
-      contentType,
-    );
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
 
-    const response = await requestUrl({
-      url: url,
-      method: 'PUT',
-      headers: {
-        Authorization: `Basic ${auth}`,
-        'X-Atlassian-Token': 'nocheck',
-        'Content-Type': `multipart/form-data; boundary=${boundary}`,
-      },
-      body: body,
+    contentEl.createEl('h2', { text: 'Publish to Confluence' });
+
+    const input = contentEl.createEl('input', {
+      type: 'text',
+      placeholder: 'What changed? (optional)',
+      cls: 'confluence-sync-version-comment',
+    });
+    input.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        this.submit(input.value);
+      }
     });
 
-    if (response.status !== 200) {
-      throw new Error(
-        `Failed to upload binary attachment: ${response.status} - ${response.text}`,
-      );
-    }
+    const buttons = contentEl.createDiv('confluence-sync-conflict-buttons');
+
+    const publishBtn = buttons.createEl('button', {
+      text: 'Publish',
+      cls: 'mod-cta',
+    });
+    publishBtn.addEventListener('click', () => this.submit(input.value));
+
+    const cancelBtn = buttons.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.close());
 
-    const data_response = response.json;
-    return data_response.results[0].id;
-  }
-
-  convertMarkdownToConfluence(markdown: string): string {
-    let confluence = markdown;
-
-    confluence = this.convertDataviewJsTags(confluence);
-    confluence = this.convertWikiLinks(confluence);
-    confluence = this.removeInlineIcons(confluence);
-    confluence = this.convertHeadings(confluence);
-    confluence = this.convertCodeBlocks(confluence);
-    confluence = this.convertImages(confluence);
-    confluence = this.convertTables(confluence);
-    confluence = this.convertTaskLists(confluence);
-    confluence = this.convertTextFormatting(confluence);
-    confluence = this.convertStrikethrough(confluence);
-    confluence = this.convertLinks(confluence);
-    confluence = this.convertInlineCode(confluence);
-    confluence = this.convertHorizontalRules(confluence);
-    confluence = this.convertBlockquotes(confluence);
-    confluence = this.convertLists(confluence);
-    confluence = this.convertParagraphs(confluence);
-
-    return confluence;
-  }
-
-  private convertDataviewJsTags(text: string): string {
-    // Convert dataviewjs tag blocks to hashtags
-    // Example: ```dataviewjs dv.view('src/dataview/tags', { tags:['TI'], header: '...' })``` -> #TI
-    return text.replace(
-      /```dataviewjs\s*dv\.view\([^,]+,\s*\{\s*tags:\s*\[([^\]]+)\][^\}]*\}\s*\)\s*```/g,
-      (_match, tagsStr) => {
-        const tags = tagsStr
-          .split(',')
-          .map((tag: string) => {
-            return tag.trim().replace(/['"]/g, '');
-          })
-          .filter((tag: string) => tag.length > 0);
-
-        return tags.map((tag: string) => `#${tag}`).join(' ');
-      },
-    );
+    input.focus();
   }
 
-  private convertWikiLinks(text: string): string {
-    // Convert wiki-style links to Confluence links
-    // [[Tech/Tech/Notes]] -> Confluence link to "Notes" page
-    // [[Tech/Tech/Notes|Custom Text]] -> Confluence link with custom display text
-    return text.replace(
-      /\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g,
-      (_match, path, displayText) => {
-        const pathParts = path.split('/');
-        const pageTitle = pathParts[pathParts.length - 1].trim();
-        const linkText = displayText ? displayText.trim() : pageTitle;
+  onClose() {
+    this.contentEl.empty();
+    this.onSubmit(this.comment);
+  }
 
-        return `<ac:link><ri:page ri:content-title="${pageTitle}" /><ac:plain-text-link-body><![CDATA[${linkText}]]></ac:plain-text-link-body></ac:link>`;
-      },
-    );
+  submit(comment: string) {
+    this.comment = comment.trim();
+    this.close();
   }
+}
+
+class PassphraseModal extends Modal {
+  title: string;
+  description: string;
+  onSubmit: (passphrase: string | null) => void;
+  passphrase: string | null = null;
 
-  private removeInlineIcons(text: string): string {
-    // Remove inline icon images from markdown (e.g., ![icon](attachments/icons/atlassian.png))
-    return text.replace(/!\[[^\]]*\]\(attachments\/[^)]+\)/g, '');
+  constructor(
+    app: App,
+    title: string,
+    description: string,
+    onSubmit: (passphrase: string | null) => void,
+  ) {
+    super(app);
+    this.title = title;
+    this.description = description;
+    this.onSubmit = onSubmit;
   }
 
-  private convertHeadings(text: string): string {
-    return text.replace(/^(#+) (.+)$/gm, (_match, hashes, content) => {
-      const level = hashes.length;
-      return `<h${level}>${content}</h${level}>`;
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: this.title });
+    contentEl.createEl('p', { text: this.description });
+
+    const input = contentEl.createEl('input', {
+      type: 'password',
+      placeholder: 'Passphrase',
+      cls: 'confluence-sync-passphrase',
+    });
+    input.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        this.submit(input.value);
+      }
     });
+
+    const buttons = contentEl.createDiv('confluence-sync-conflict-buttons');
+
+    const okBtn = buttons.createEl('button', { text: 'OK', cls: 'mod-cta' });
+    okBtn.addEventListener('click', () => this.submit(input.value));
+
+    const cancelBtn = buttons.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    input.focus();
   }
 
-  private convertCodeBlocks(text: string): string {
-    return text.replace(/```(\w*)\n([\s\S]+?)```/g, (_match, lang, code) => {
-      const language = lang || 'none';
-      return `<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">${language}</ac:parameter><ac:plain-text-body><![CDATA[${code}]]></ac:plain-text-body></ac:structured-macro>`;
-    });
+  onClose() {
+    this.contentEl.empty();
+    this.onSubmit(this.passphrase);
   }
 
-  private convertImages(text: string): string {
-    return text.replace(/!\[([^\]]*)\]\(([^)]+)\)/g, (_match, _alt, url) => {
-      return `<ac:image><ri:url ri:value="${url}" /></ac:image>`;
-    });
+  submit(passphrase: string) {
+    if (!passphrase) return;
+    this.passphrase = passphrase;
+    this.close();
   }
+}
 
-  private convertTables(text: string): string {
-    return text.replace(/^((?:\|.+\|[\r\n]+)+)/gm, (match) => {
-      const rows = match.trim().split('\n');
-      let tableHtml = '<table><tbody>';
+class ArchiveModal extends Modal {
+  paths: string[];
+  onChoose: (archive: boolean) => void;
+  archive = false;
 
-      rows.forEach((row, index) => {
-        if (index === 1) return; // Skip separator row
+  constructor(app: App, paths: string[], onChoose: (archive: boolean) => void) {
+    super(app);
+    this.paths = paths;
+    this.onChoose = onChoose;
+  }
 
-        const cells = row.split('|').filter((cell) => cell.trim());
-        const tag = index === 0 ? 'th' : 'td';
-        tableHtml += '<tr>';
-        cells.forEach((cell) => {
-          tableHtml += `<${tag}>${cell.trim()}</${tag}>`;
-        });
-        tableHtml += '</tr>';
-      });
+  onOpen() {
+    const { contentEl, paths } = this;
+    contentEl.empty();
 
-      tableHtml += '</tbody></table>';
-      return tableHtml + '\n';
+    contentEl.createEl('h2', { text: 'Archive Confluence pages?' });
+    contentEl.createEl('p', {
+      text:
+        paths.length === 1
+          ? `"${paths[0]}" was deleted but its Confluence page is still live.`
+          : `${paths.length} deleted notes still have live Confluence pages.`,
     });
-  }
+    if (paths.length > 1) {
+      const list = contentEl.createEl('ul');
+      for (const path of paths) {
+        list.createEl('li', { text: path });
+      }
+    }
 
-  private convertTaskLists(text: string): string {
-    return text.replace(/^- \[([ x])\] (.+)$/gm, (_match, checked, content) => {
-      const isChecked = checked.toLowerCase() === 'x';
-      return `<ac:task><ac:task-status>${isChecked ? 'complete' : 'incomplete'}</ac:task-status><ac:task-body>${content}</ac:task-body></ac:task>`;
-    });
-  }
+    const buttons = contentEl.createDiv('confluence-sync-conflict-buttons');
 
-  private convertTextFormatting(text: string): string {
-    let result = text;
+    const archiveBtn = buttons.createEl('button', {
+      text: 'Archive in Confluence',
+      cls: 'mod-warning',
+    });
+    archiveBtn.addEventListener('click', () => {
+      this.archive = true;
+      this.close();
+    });
 
-    // Bold and italic
-    result = result.replace(
-      /\*\*\*(.+?)\*\*\*/g,
-      '<strong><em>$1</em></strong>',
-    );
-    result = result.replace(/___(.+?)___/g, '<strong><em>$1</em></strong>');
+    const keepBtn = buttons.createEl('button', { text: 'Keep pages' });
+    keepBtn.addEventListener('click', () => this.close());
+  }
 
-    // Bold
-    result = result.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
-    result = result.replace(/__(.+?)__/g, '<strong>$1</strong>');
+  onClose() {
+    this.contentEl.empty();
+    this.onChoose(this.archive);
+  }
+}
 
-    // Italic
-    result = result.replace(/\*(?!\s)(.+?)(?<!\s)\*/g, '<em>$1</em>');
-    result = result.replace(/_(?!\s)(.+?)(?<!\s)_/g, '<em>$1</em>');
+class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+  onChoose: (folder: TFolder) => void;
 
-    return result;
+  constructor(app: App, onChoose: (folder: TFolder) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder('Choose a folder to sync to Confluence');
   }
 
-  private convertStrikethrough(text: string): string {
-    return text.replace(/~~(.+?)~~/g, '<s>$1</s>');
+  getItems(): TFolder[] {
+    return this.app.vault
+      .getAllLoadedFiles()
+      .filter((file): file is TFolder => file instanceof TFolder);
   }
 
-  private convertLinks(text: string): string {
-    return text.replace(/\[(.+?)\]\((.+?)\)/g, '<a href="$2">$1</a>');
+  getItemText(folder: TFolder): string {
+    return folder.isRoot() ? '/' : folder.path;
   }
 
-  private convertInlineCode(text: string): string {
-    return text.replace(/`([^`]+)`/g, '<code>$1</code>');
+  onChooseItem(folder: TFolder) {
+    this.onChoose(folder);
   }
+}
 
-  private convertHorizontalRules(text: string): string {
-    return text.replace(/^---+$/gm, '<hr/>');
+class BatchSyncModal extends Modal {
+  folder: string;
+  total: number;
+  isStopped = false;
+  progressEl: HTMLProgressElement;
+  statusEl: HTMLDivElement;
+  resultsEl: HTMLUListElement;
+  stopBtn: HTMLButtonElement;
+
+  constructor(app: App, folder: string, total: number) {
+    super(app);
+    this.folder = folder;
+    this.total = total;
   }
 
-  private convertBlockquotes(text: string): string {
-    let result = text.replace(
-      /^> (.+)$/gm,
-      '<blockquote><p>$1</p></blockquote>',
-    );
-    result = result.replace(/<\/blockquote>\s*<blockquote>/g, '');
-    return result;
-  }
-
-  private convertLists(text: string): string {
-    const listLines = text.split('\n');
-    const processedLines: string[] = [];
-    let i = 0;
-
-    while (i < listLines.length) {
-      const line = listLines[i];
-      const olMatch = line.match(/^(\s*)\d+\. (.+)$/);
-      const ulMatch = line.match(/^(\s*)[*-] (.+)$/);
-
-      // Check if this is the start of an ordered list
-      if (olMatch && olMatch[1].length === 0) {
-        // Start of a root-level ordered list
-        const orderedItems: string[] = [];
-
-        while (i < listLines.length) {
-          const currentLine = listLines[i];
-          const currentOlMatch = currentLine.match(/^(\s*)\d+\. (.+)$/);
-
-          // If this is a root-level ordered list item
-          if (currentOlMatch && currentOlMatch[1].length === 0) {
-            // Collect the content for this list item (including nested content)
-            let itemContent = currentOlMatch[2];
-            i++;
-
-            // Collect nested/continuation lines
-            while (i < listLines.length) {
-              const nextLine = listLines[i];
-              const nextOlMatch = nextLine.match(/^(\s*)\d+\. (.+)$/);
-
-              // Stop if we hit another root-level ordered list item
-              if (nextOlMatch && nextOlMatch[1].length === 0) {
-                break;
-              }
-
-              // Stop if we hit a non-empty, non-indented line that's not a list item
-              if (nextLine.trim() && !nextLine.match(/^\s+/)) {
-                break;
-              }
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('confluence-sync-batch');
 
-              // Check for nested bullet lists
-              const nestedUlMatch = nextLine.match(/^(\s+)[*-] (.+)$/);
-              if (nestedUlMatch) {
-                // Start collecting nested bullets
-                const nestedItems: string[] = [];
-                const baseIndent = nestedUlMatch[1].length;
-
-                while (i < listLines.length) {
-                  const nestedLine = listLines[i];
-                  const nestedMatch = nestedLine.match(/^(\s+)[*-] (.+)$/);
-
-                  if (nestedMatch && nestedMatch[1].length >= baseIndent) {
-                    nestedItems.push(`<li>${nestedMatch[2]}</li>`);
-                    i++;
-                  } else {
-                    break;
-                  }
-                }
-
-                if (nestedItems.length > 0) {
-                  itemContent += `<ul>${nestedItems.join('')}</ul>`;
-                }
-              } else if (nextLine.trim()) {
-                // Add other indented content
-                itemContent += ` ${nextLine.trim()}`;
-                i++;
-              } else {
-                // Skip empty lines within the list item
-                i++;
-              }
-            }
+    contentEl.createEl('h2', {
+      text: `Syncing "${this.folder || '/'}" to Confluence`,
+    });
+    this.progressEl = contentEl.createEl('progress', {
+      attr: { max: String(this.total), value: '0' },
+    });
+    this.statusEl = contentEl.createDiv('confluence-sync-batch-status');
+    this.resultsEl = contentEl.createEl('ul', {
+      cls: 'confluence-sync-batch-results',
+    });
 
-            orderedItems.push(`<li>${itemContent}</li>`);
-          } else {
-            break;
-          }
-        }
+    this.stopBtn = contentEl.createEl('button', { text: 'Stop' });
+    this.stopBtn.addEventListener('click', () => {
+      this.isStopped = true;
+      this.stopBtn.disabled = true;
+      this.statusEl.setText('Stopping after the current note...');
+    });
+  }
 
-        if (orderedItems.length > 0) {
-          processedLines.push(`<ol>${orderedItems.join('')}</ol>`);
-        }
-      }
-      // Check if this is the start of an unordered list (root-level)
-      else if (ulMatch && ulMatch[1].length === 0) {
-        const unorderedItems: string[] = [];
+  setCurrent(path: string, done: number) {
+    this.progressEl.value = done;
+    this.statusEl.setText(`(${done + 1}/${this.total}) ${path}`);
+  }
 
-        while (i < listLines.length) {
-          const currentLine = listLines[i];
-          const currentUlMatch = currentLine.match(/^(\s*)[*-] (.+)$/);
+  addResult(path: string, error?: string, skipped = false) {
+    const item = this.resultsEl.createEl('li', {
+      cls: error ? 'is-failed' : skipped ? 'is-skipped' : 'is-synced',
+    });
+    const icon = error ? '✗' : skipped ? '–' : '✓';
+    item.createSpan({ text: `${icon} ${path}${skipped ? ' (skipped)' : ''}` });
+    if (error) {
+      item.createDiv({ text: error, cls: 'confluence-sync-batch-error' });
+    }
+  }
 
-          if (currentUlMatch && currentUlMatch[1].length === 0) {
-            unorderedItems.push(`<li>${currentUlMatch[2]}</li>`);
-            i++;
-          } else {
-            break;
-          }
-        }
+  finish(
+    succeeded: number,
+    skipped: number,
+    failed: number,
+    remaining: number,
+  ) {
+    this.progressEl.value = succeeded + skipped + failed;
+    const counts = `${succeeded} synced, ${skipped} skipped, ${failed} failed`;
+    this.statusEl.setText(
+      remaining > 0
+        ? `Stopped: ${counts}, ${remaining} left to resume`
+        : `Done: ${counts}`,
+    );
+    this.stopBtn.remove();
+  }
+}
 
-        if (unorderedItems.length > 0) {
-          processedLines.push(`<ul>${unorderedItems.join('')}</ul>`);
-        }
+/**
+ * Line diff based on the longest common subsequence. Runs of removed and added
+ * lines are paired up so they can be shown side by side.
+ */
+function diffLines(
+  local: string[],
+  remote: string[],
+): { left?: string; right?: string }[] {
+  const lengths: number[][] = [];
+  for (let i = local.length; i >= 0; i--) {
+    lengths[i] = [];
+    for (let j = remote.length; j >= 0; j--) {
+      if (i === local.length || j === remote.length) {
+        lengths[i][j] = 0;
+      } else if (local[i] === remote[j]) {
+        lengths[i][j] = lengths[i + 1][j + 1] + 1;
       } else {
-        processedLines.push(line);
-        i++;
+        lengths[i][j] = Math.max(lengths[i + 1][j], lengths[i][j + 1]);
       }
     }
-
-    return processedLines.join('\n');
   }
 
-  private convertParagraphs(text: string): string {
-    let result = text;
+  const rows: { left?: string; right?: string }[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    const count = Math.max(removed.length, added.length);
+    for (let k = 0; k < count; k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+    removed = [];
+    added = [];
+  };
 
-    // Add paragraph breaks
-    result = result.replace(/\n\n+/g, '</p><p>');
+  let i = 0;
+  let j = 0;
+  while (i < local.length || j < remote.length) {
+    if (i < local.length && j < remote.length && local[i] === remote[j]) {
+      flush();
+      rows.push({ left: local[i], right: remote[j] });
+      i++;
+      j++;
+    } else if (
+      j >= remote.length ||
+      (i < local.length && lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      removed.push(local[i++]);
+    } else {
+      added.push(remote[j++]);
+    }
+  }
+  flush();
 
-    // Add trailing paragraph tags
-    const addTrailParagraphs = (input: string) => {
-      const parts = input.split(
-        /(<ac:structured-macro[\s\S]*?<\/ac:structured-macro>)/g,
-      );
-      return parts
-        .map((part) => {
-          if (part.startsWith('<ac:structured-macro')) return part;
-          return part.replace(/([^>])$/gm, '$1</p>');
-        })
-        .join('');
-    };
-    result = addTrailParagraphs(result);
+  return rows;
+}
 
-    // Clean up empty and malformed paragraph tags
-    result = result.replace(/<p><\/p>/g, '');
-    result = result.replace(
-      /<p>(<(?:h\d|ul|ol|table|blockquote|ac:|hr))/g,
-      '$1',
-    );
-    result = result.replace(
-      /(<\/(?:h\d|ul|ol|table|blockquote|ac:structured-macro|hr\/)>)<\/p>/g,
-      '$1',
-    );
+/**
+ * Resolves once nothing has changed inside the element for `quiet` ms, or
+ * after `timeout` ms however busy it still is.
+ */
+function waitForMutations(
+  element: HTMLElement,
+  quiet: number,
+  timeout: number,
+): Promise<void> {
+  return new Promise((resolve) => {
+    let timer = window.setTimeout(done, quiet);
+    const deadline = window.setTimeout(done, timeout);
+    const observer = new MutationObserver(() => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(done, quiet);
+    });
+    observer.observe(element, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+    });
 
-    return result;
-  }
+    function done() {
+      observer.disconnect();
+      window.clearTimeout(timer);
+      window.clearTimeout(deadline);
+      resolve();
+    }
+  });
 }
 
 class ConfluenceSyncSettingTab extends PluginSettingTab {
@@ -1164,47 +3815,112 @@ class ConfluenceSyncSettingTab extends PluginSettingTab {
 
     containerEl.createEl('h2', { text: 'Confluence Sync Settings' });
 
+    const isDataCenter = this.plugin.settings.deployment === 'datacenter';
+
     new Setting(containerEl)
-      .setName('Confluence Domain')
+      .setName('Deployment')
       .setDesc(
-        'Your Confluence domain (e.g., https://yourcompany.atlassian.net)',
+        'Confluence Cloud signs in with your email and an API token; Data Center and Server use a personal access token',
       )
-      .addText((text) =>
-        text
-          .setPlaceholder('https://yourcompany.atlassian.net')
-          .setValue(this.plugin.settings.domain)
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('cloud', 'Cloud')
+          .addOption('datacenter', 'Data Center / Server')
+          .setValue(this.plugin.settings.deployment)
           .onChange(async (value) => {
-            this.plugin.settings.domain = value;
+            this.plugin.settings.deployment = value as 'cloud' | 'datacenter';
             await this.plugin.saveSettings();
+            this.display();
           }),
       );
 
     new Setting(containerEl)
-      .setName('Username')
-      .setDesc('Your Confluence username (email)')
+      .setName('Confluence Domain')
+      .setDesc(
+        isDataCenter
+          ? 'Base URL of your Confluence, including any context path (e.g., https://confluence.example.com)'
+          : 'Your Confluence domain (e.g., https://yourcompany.atlassian.net)',
+      )
       .addText((text) =>
         text
-          .setPlaceholder('user@example.com')
-          .setValue(this.plugin.settings.username)
+          .setPlaceholder(
+            isDataCenter
+              ? 'https://confluence.example.com'
+              : 'https://yourcompany.atlassian.net',
+          )
+          .setValue(this.plugin.settings.domain)
           .onChange(async (value) => {
-            this.plugin.settings.username = value;
+            this.plugin.settings.domain = value;
             await this.plugin.saveSettings();
           }),
       );
 
-    new Setting(containerEl)
-      .setName('API Token')
-      .setDesc('Your Confluence API token')
+    if (!isDataCenter) {
+      new Setting(containerEl)
+        .setName('Username')
+        .setDesc('Your Confluence username (email)')
+        .addText((text) =>
+          text
+            .setPlaceholder('user@example.com')
+            .setValue(this.plugin.settings.username)
+            .onChange(async (value) => {
+              this.plugin.settings.username = value;
+              await this.plugin.saveSettings();
+            }),
+        );
+    }
+
+    // The token never goes into data.json; it is saved through the
+    // credential store when the Save button is pressed
+    let token = '';
+    const tokenSetting = new Setting(containerEl)
+      .setName(isDataCenter ? 'Personal Access Token' : 'API Token')
+      .setDesc(
+        `${isDataCenter ? 'A personal access token from your Confluence profile' : 'Your Confluence API token'}. ${
+          this.plugin.tokenStorage === 'keychain'
+            ? 'Saved in the system keychain.'
+            : this.plugin.tokenStorage === 'passphrase'
+              ? 'Saved encrypted with your passphrase.'
+              : this.plugin.credentials.keychainAvailable
+                ? 'Saved in the system keychain, never in data.json.'
+                : 'Saved encrypted with a passphrase, never in data.json.'
+        }`,
+      )
       .addText((text) => {
         text
-          .setPlaceholder('Enter API token')
-          .setValue(this.plugin.settings.apiToken)
-          .onChange(async (value) => {
-            this.plugin.settings.apiToken = value;
-            await this.plugin.saveSettings();
+          .setPlaceholder(
+            this.plugin.tokenStorage
+              ? 'Enter a new token to replace the saved one'
+              : isDataCenter
+                ? 'Enter personal access token'
+                : 'Enter API token',
+          )
+          .onChange((value) => {
+            token = value.trim();
           });
         text.inputEl.type = 'password';
-      });
+      })
+      .addButton((button) =>
+        button.setButtonText('Save').onClick(async () => {
+          if (!token) return;
+          try {
+            if (await this.plugin.storeApiToken(token)) {
+              new Notice('Confluence token saved');
+              this.display();
+            }
+          } catch (error) {
+            new Notice(`Failed to save token: ${error.message}`);
+          }
+        }),
+      );
+    if (this.plugin.tokenStorage) {
+      tokenSetting.addButton((button) =>
+        button.setButtonText('Forget').onClick(async () => {
+          await this.plugin.forgetApiToken();
+          this.display();
+        }),
+      );
+    }
 
     new Setting(containerEl)
       .setName('Space ID')
@@ -1219,10 +3935,138 @@ class ConfluenceSyncSettingTab extends PluginSettingTab {
           }),
       );
 
+    const connectionSetting = new Setting(containerEl)
+      .setName('Test connection')
+      .setDesc('Check the credentials and your access to the space');
+    const resultsEl = containerEl.createEl('ul', {
+      cls: 'confluence-sync-connection-results',
+    });
+    connectionSetting.addButton((button) =>
+      button.setButtonText('Test connection').onClick(async () => {
+        resultsEl.empty();
+        if (!this.plugin.validateSettings()) {
+          resultsEl.createEl('li', {
+            text: 'Fill in the connection settings first',
+            cls: 'is-failed',
+          });
+          return;
+        }
+
+        button.setDisabled(true);
+        try {
+          for (const result of await this.plugin.testConnection()) {
+            resultsEl.createEl('li', {
+              text: `${result.ok ? '✓' : '✗'} ${result.message}`,
+              cls: result.ok ? 'is-ok' : 'is-failed',
+            });
+          }
+        } catch (error) {
+          resultsEl.createEl('li', {
+            text: `✗ Could not reach Confluence: ${error.message}`,
+            cls: 'is-failed',
+          });
+        } finally {
+          button.setDisabled(false);
+        }
+      }),
+    );
+
+    new Setting(containerEl)
+      .setName('Root page')
+      .setDesc(
+        'Id or URL of the page to publish under when no folder mapping applies. Leave empty to publish at the top of the space.',
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder('123456789')
+          .setValue(this.plugin.settings.rootPageId)
+          .onChange(async (value) => {
+            this.plugin.settings.rootPageId = value.trim();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Folder pages')
+      .setDesc(
+        'Mirror vault folders as pages between the parent page and the note, or publish every note directly under its parent page',
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('mirror', 'Mirror folders')
+          .addOption('flatten', 'Flatten')
+          .setValue(this.plugin.settings.folderMode)
+          .onChange(async (value) => {
+            this.plugin.settings.folderMode = value as 'mirror' | 'flatten';
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Strip folder prefix')
+      .setDesc(
+        'Regular expression removed from folder names before they become page titles, e.g. ^\\d+\\s*-\\s* turns "01 - Projects" into "Projects"',
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder('^\\d+\\s*-\\s*')
+          .setValue(this.plugin.settings.folderPrefixPattern)
+          .onChange(async (value) => {
+            this.plugin.settings.folderPrefixPattern = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Folder mappings')
+      .setDesc(
+        'Publish notes in a vault folder under a specific page. Subfolders are mirrored below that page; the most specific mapping wins.',
+      )
+      .addButton((button) =>
+        button.setButtonText('Add mapping').onClick(async () => {
+          this.plugin.settings.folderMappings.push({ folder: '', parentId: '' });
+          await this.plugin.saveSettings();
+          this.display();
+        }),
+      );
+
+    for (const mapping of this.plugin.settings.folderMappings) {
+      new Setting(containerEl)
+        .setClass('confluence-sync-folder-mapping')
+        .addText((text) =>
+          text
+            .setPlaceholder('Vault folder')
+            .setValue(mapping.folder)
+            .onChange(async (value) => {
+              mapping.folder = value.trim().replace(/^\/+|\/+$/g, '');
+              await this.plugin.saveSettings();
+            }),
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('Parent page id or URL')
+            .setValue(mapping.parentId)
+            .onChange(async (value) => {
+              mapping.parentId = value.trim();
+              await this.plugin.saveSettings();
+            }),
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('trash')
+            .setTooltip('Remove mapping')
+            .onClick(async () => {
+              this.plugin.settings.folderMappings.remove(mapping);
+              await this.plugin.saveSettings();
+              this.display();
+            }),
+        );
+    }
+
     new Setting(containerEl)
       .setName('Attachments Folder')
       .setDesc(
-        'Folder path relative to vault root where attachments are stored (e.g., attachments)',
+        'Folder for attachments downloaded from Confluence, and where embeds are looked up if Obsidian cannot resolve them (e.g., attachments)',
       )
       .addText((text) =>
         text
@@ -1234,6 +4078,221 @@ class ConfluenceSyncSettingTab extends PluginSettingTab {
           }),
       );
 
+    new Setting(containerEl)
+      .setName('Unpublished link targets')
+      .setDesc(
+        'How to handle wiki links to notes that have no Confluence page yet',
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('plain', 'Render as plain text')
+          .addOption('publish', 'Publish the linked note first')
+          .setValue(this.plugin.settings.unpublishedLinks)
+          .onChange(async (value) => {
+            this.plugin.settings.unpublishedLinks = value as
+              | 'plain'
+              | 'publish';
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Inline math macro')
+      .setDesc('Macro for $inline$ formulas; the formula is its body parameter')
+      .addText((text) =>
+        text
+          .setPlaceholder('mathinline')
+          .setValue(this.plugin.settings.mathInlineMacro)
+          .onChange(async (value) => {
+            this.plugin.settings.mathInlineMacro = value.trim();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Block math macro')
+      .setDesc('Macro for $$display$$ formulas; the formula is its plain text body')
+      .addText((text) =>
+        text
+          .setPlaceholder('mathblock')
+          .setValue(this.plugin.settings.mathBlockMacro)
+          .onChange(async (value) => {
+            this.plugin.settings.mathBlockMacro = value.trim();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Embedded notes')
+      .setDesc(
+        'Embeds of notes, headings and blocks on a line of their own are expanded into the page. Whole notes that are published can be shown with an include macro instead, so the page updates with them.',
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('expand', 'Expand the content')
+          .addOption('include', 'Include published notes')
+          .setValue(this.plugin.settings.noteEmbeds)
+          .onChange(async (value) => {
+            this.plugin.settings.noteEmbeds = value as 'expand' | 'include';
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Mermaid rendering')
+      .setDesc(
+        'Render diagrams locally with the Mermaid bundled in Obsidian, or send them to a Kroki server',
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('local', 'Local (Obsidian)')
+          .addOption('kroki', 'Kroki server')
+          .setValue(this.plugin.settings.mermaidRenderer)
+          .onChange(async (value) => {
+            this.plugin.settings.mermaidRenderer = value as 'local' | 'kroki';
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Kroki URL')
+      .setDesc(
+        'Self-hosted Kroki server, also used as a fallback when local rendering fails. Leave empty to never send diagrams to a server.',
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder('https://kroki.example.com')
+          .setValue(this.plugin.settings.krokiUrl)
+          .onChange(async (value) => {
+            this.plugin.settings.krokiUrl = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Tag to label map')
+      .setDesc(
+        'Tags are published as Confluence labels. Rename them with one "tag: label" per line; leave the label empty to not publish a tag.',
+      )
+      .addTextArea((text) =>
+        text
+          .setPlaceholder('project/alpha: alpha\ndraft:')
+          .setValue(
+            Object.entries(this.plugin.settings.tagLabels)
+              .map(([tag, label]) => `${tag}: ${label}`)
+              .join('\n'),
+          )
+          .onChange(async (value) => {
+            const tagLabels: Record<string, string> = {};
+            for (const line of value.split('\n')) {
+              const colonIndex = line.lastIndexOf(':');
+              if (colonIndex === -1) continue;
+              const tag = line
+                .substring(0, colonIndex)
+                .trim()
+                .replace(/^#/, '')
+                .toLowerCase();
+              if (tag) {
+                tagLabels[tag] = line.substring(colonIndex + 1).trim();
+              }
+            }
+            this.plugin.settings.tagLabels = tagLabels;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Add unresolved comments to the note')
+      .setDesc(
+        `Pulling comments writes the open comment threads to a "${COMMENTS_HEADING}" section at the end of the note. The section is not published.`,
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.commentsSection)
+          .onChange(async (value) => {
+            this.plugin.settings.commentsSection = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Publish on save')
+      .setDesc(
+        'Sync notes automatically after they are edited: notes with a confluence: key in their frontmatter, and notes in the folders below. Notes edited while offline are published when the connection is back.',
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.autoPublish)
+          .onChange(async (value) => {
+            this.plugin.settings.autoPublish = value;
+            await this.plugin.saveSettings();
+            this.display();
+          }),
+      );
+
+    if (this.plugin.settings.autoPublish) {
+      new Setting(containerEl)
+        .setName('Idle delay')
+        .setDesc('Seconds a note has to be left alone before it is published')
+        .addText((text) =>
+          text
+            .setPlaceholder('30')
+            .setValue(String(this.plugin.settings.autoPublishDelay))
+            .onChange(async (value) => {
+              const delay = Number(value);
+              if (!Number.isFinite(delay) || delay < 1) return;
+              this.plugin.settings.autoPublishDelay = delay;
+              await this.plugin.saveSettings();
+            }),
+        );
+
+      new Setting(containerEl)
+        .setName('Publish on save folders')
+        .setDesc(
+          'Also publish notes in these vault folders and their subfolders, one per line, even before their first sync',
+        )
+        .addTextArea((text) =>
+          text
+            .setPlaceholder('Work/Runbooks')
+            .setValue(this.plugin.settings.autoPublishFolders.join('\n'))
+            .onChange(async (value) => {
+              this.plugin.settings.autoPublishFolders = value
+                .split('\n')
+                .map((folder) => folder.trim().replace(/^\/+|\/+$/g, ''))
+                .filter((folder) => folder.length > 0);
+              await this.plugin.saveSettings();
+            }),
+        );
+    }
+
+    new Setting(containerEl)
+      .setName('Publish as minor edit')
+      .setDesc(
+        'Mark page updates as minor edits so watchers are not notified. A note can override this with confluence-minor-edit in its frontmatter.',
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.minorEdits)
+          .onChange(async (value) => {
+            this.plugin.settings.minorEdits = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Ask for a version comment')
+      .setDesc(
+        'Prompt for a version comment when syncing the current note, unless it sets confluence-version-comment in its frontmatter',
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.promptForVersionComment)
+          .onChange(async (value) => {
+            this.plugin.settings.promptForVersionComment = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
     new Setting(containerEl)
       .setName('Add Confluence URL to frontmatter')
       .setDesc(
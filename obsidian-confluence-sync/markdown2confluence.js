@@ -0,0 +1,1405 @@
+import MarkdownIt from 'markdown-it';
+
+/**
+ * Markdown -> Confluence storage format converter.
+ *
+ * The markdown is parsed with markdown-it (CommonMark plus GFM tables,
+ * strikethrough and autolinks) extended with the Obsidian syntax we publish:
+ * wiki links, embeds, task lists, callouts, mermaid diagrams, math, footnotes
+ * and highlights. The token stream is folded into a tree which is then
+ * serialized as Confluence storage XHTML.
+ *
+ * This module must not depend on Obsidian so it can run headless.
+ */
+
+/**
+ * @typedef {Object} ConvertOptions
+ * @property {(linkPath: string) => PageRef | null} [resolveWikiLink]
+ *   Title and space of the Confluence page for a linked note, or null when the
+ *   note is not published (the link is then rendered as plain text). Without
+ *   a resolver, links point at the page with the same title in the space.
+ * @property {(target: string, alias: string) => string | null} [renderEmbed]
+ *   Storage markup for an `![[embed]]`, or null for the default rendering
+ *   (files as attachment macros, notes as a link).
+ * @property {MathMacros} [mathMacros]
+ *   Names of the macros formulas are published with, `DEFAULT_MATH_MACROS`
+ *   unless given.
+ * @property {string} [attachmentsFolder]
+ *   Vault folder of attachments, `attachments` unless given. Markdown images
+ *   of files in it only make sense in the vault and are left out.
+ * @property {Set<string>} [unrendered]
+ *   Attachment filenames of diagrams that could not be rendered. Their source
+ *   is published as code instead of an image of a missing attachment.
+ */
+
+/**
+ * Math macros of a Confluence math app. Inline formulas go in the `body`
+ * parameter of the inline macro, display formulas in the plain text body of
+ * the block macro.
+ * @typedef {Object} MathMacros
+ * @property {string} inline
+ * @property {string} block
+ */
+
+/**
+ * @typedef {Object} PageRef
+ * @property {string} title
+ * @property {string} spaceKey
+ */
+
+/**
+ * @typedef {Object} Embed
+ * @property {string} target Link target as written in the note
+ * @property {string} filename Name of the attachment the page refers to
+ * @property {'image' | 'media' | 'file' | 'note'} type
+ */
+
+/**
+ * @typedef {Object} MermaidDiagram
+ * @property {string} filename Name of the SVG attachment the page refers to
+ * @property {string} code
+ */
+
+/**
+ * @typedef {Object} MathFormula
+ * @property {string} tex
+ * @property {boolean} display Whether it is a `$$display$$` formula
+ */
+
+/**
+ * @typedef {Object} DataviewQuery
+ * @property {'dataview' | 'dataviewjs'} language
+ * @property {string} source
+ * @property {[number, number]} map 0-based lines of the fenced block, end
+ *   exclusive
+ */
+
+/**
+ * @typedef {Object} ConversionIssue
+ * @property {number} line 1-based line of the construct in the markdown
+ * @property {string} message
+ */
+
+/**
+ * @typedef {Object} TreeNode
+ * @property {string} type
+ * @property {import('markdown-it/lib/token.mjs').default | null} token
+ * @property {TreeNode[]} children
+ */
+
+const INLINE_HTML_TAGS = ['u', 'sub', 'sup'];
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|bmp)$/i;
+const MEDIA_EXTENSIONS = /\.(mp4|mov|webm|mkv|ogv|mp3|wav|ogg|m4a|flac)$/i;
+// Notes are embedded without an extension (dots in note names are fine)
+const FILE_EXTENSION = /\.[a-z0-9]{1,5}$/i;
+
+const DEFAULT_IMAGE_WIDTH = '500';
+
+const DEFAULT_ATTACHMENTS_FOLDER = 'attachments';
+
+/** @type {MathMacros} */
+export const DEFAULT_MATH_MACROS = { inline: 'mathinline', block: 'mathblock' };
+
+// Background of ==highlighted== text, Confluence's yellow text highlight
+const HIGHLIGHT_COLOR = 'rgb(254,241,178)';
+
+// Languages the Confluence code macro can highlight
+const CODE_LANGUAGES = new Set([
+  'actionscript3', 'applescript', 'bash', 'c', 'c#', 'cpp', 'csharp', 'css',
+  'coldfusion', 'delphi', 'diff', 'erl', 'erlang', 'go', 'groovy', 'html',
+  'java', 'javafx', 'javascript', 'js', 'json', 'kotlin', 'markdown', 'none',
+  'perl', 'php', 'powershell', 'py', 'python', 'r', 'ruby', 'rust', 'sass',
+  'scala', 'shell', 'sh', 'sql', 'swift', 'text', 'ts', 'typescript', 'vb',
+  'xml', 'yaml', 'yml',
+]);
+
+// ```dataviewjs dv.view('src/dataview/tags', { tags:['TI'], header: '...' })```
+const DATAVIEW_TAGS =
+  /```dataviewjs\s*dv\.view\([^,]+,\s*\{\s*tags:\s*\[([^\]]+)\][^}]*\}\s*\)\s*```/g;
+// Obsidian tags: letters, digits, _, - and / for nesting, but not only digits
+const INLINE_TAG = /(?:^|\s)#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu;
+
+// Obsidian callout types (including aliases) -> Confluence panel macros
+const CALLOUT_MACROS = {
+  info: ['info', 'todo', 'abstract', 'summary', 'tldr', 'example', 'quote', 'cite'],
+  note: ['note', 'question', 'help', 'faq'],
+  tip: ['tip', 'hint', 'important', 'success', 'check', 'done'],
+  warning: ['warning', 'caution', 'attention', 'danger', 'error', 'bug', 'failure', 'fail', 'missing'],
+};
+
+const md = new MarkdownIt({ html: true, linkify: true })
+  .use(wikiLinks)
+  .use(embedFilenames)
+  .use(taskLists)
+  .use(callouts)
+  .use(mermaidDiagrams)
+  .use(dataviewQueries)
+  .use(math)
+  .use(footnotes)
+  .use(highlights);
+
+/**
+ * @param {string} markdown
+ * @param {ConvertOptions} [options]
+ * @returns {string}
+ */
+export function convertMarkdownToConfluence(markdown, options = {}) {
+  const tree = buildTree(parse(markdown));
+  return renderBlocks(tree.children, options, '\n');
+}
+
+/**
+ * Mermaid diagrams in document order. The converted page shows each one as an
+ * image of the attachment named by `filename`, so the caller has to render
+ * and upload them.
+ * @param {string} markdown
+ * @returns {MermaidDiagram[]}
+ */
+export function collectMermaidDiagrams(markdown) {
+  return parse(markdown)
+    .filter((token) => token.type === 'fence' && token.meta && token.meta.filename)
+    .map((token) => ({ filename: token.meta.filename, code: token.content.trim() }));
+}
+
+/**
+ * Math formulas in document order. Pages published before formulas became
+ * macros show the formula at index N as the image MATH-PLACEHOLDER-N.svg.
+ * @param {string} markdown
+ * @returns {MathFormula[]}
+ */
+export function collectMath(markdown) {
+  const formulas = [];
+
+  const walk = (tokens) => {
+    for (const token of tokens) {
+      if (token.type === 'math_block' || token.type === 'math_inline') {
+        formulas.push({
+          tex: token.content,
+          display: token.meta.display,
+        });
+      } else if (token.children) {
+        walk(token.children);
+      }
+    }
+  };
+  walk(parse(markdown));
+
+  return formulas;
+}
+
+/**
+ * Labels of the footnotes in the order they are numbered on the page, null
+ * for inline `^[text]` notes
+ * @param {string} markdown
+ * @returns {(string | null)[]}
+ */
+export function collectFootnotes(markdown) {
+  const labels = [];
+
+  const walk = (tokens) => {
+    for (const token of tokens) {
+      if (token.type === 'footnote_ref' && token.meta.first) {
+        labels.push(token.meta.label);
+      } else if (token.children) {
+        walk(token.children);
+      }
+    }
+  };
+  walk(parse(markdown));
+
+  return labels;
+}
+
+/**
+ * Dataview and dataviewjs blocks in document order, except the tag blocks
+ * that are published as labels. They are published as code unless the caller
+ * replaces them with their results.
+ * @param {string} markdown
+ * @returns {DataviewQuery[]}
+ */
+export function collectDataviewQueries(markdown) {
+  return parse(markdown)
+    .filter((token) => token.type === 'fence' && token.meta && token.meta.dataview)
+    .map((token) => ({
+      language: token.meta.dataview,
+      source: token.content,
+      map: token.map,
+    }));
+}
+
+/**
+ * `![[embeds]]` in document order. Everything except notes is shown from a
+ * page attachment named by `filename`, which the caller has to upload.
+ * @param {string} markdown
+ * @returns {Embed[]}
+ */
+export function collectEmbeds(markdown) {
+  const embeds = [];
+
+  const walk = (tokens) => {
+    for (const token of tokens) {
+      if (token.type === 'embed') {
+        const target = token.meta.target.split('#')[0].trim();
+        embeds.push({
+          target,
+          filename: token.meta.filename,
+          type: getEmbedType(target),
+        });
+      } else if (token.children) {
+        walk(token.children);
+      }
+    }
+  };
+  walk(parse(markdown));
+
+  return embeds;
+}
+
+/**
+ * Constructs that don't survive the conversion as they look in Obsidian, for
+ * showing before a note is published.
+ * @param {string} markdown
+ * @param {ConvertOptions} [options]
+ * @returns {ConversionIssue[]}
+ */
+export function collectIssues(markdown, options = {}) {
+  const issues = [];
+
+  const walk = (tokens, line) => {
+    for (const token of tokens) {
+      // Embeds on lines of their own are expanded by the plugin
+      if (token.type === 'inline' && isEmbedLine(token)) continue;
+
+      const tokenLine = token.map ? token.map[0] + 1 : line;
+      const message = getIssue(token, options);
+      if (message) {
+        issues.push({ line: tokenLine, message });
+      }
+      if (token.children) {
+        walk(token.children, tokenLine);
+      }
+    }
+  };
+  walk(parse(markdown), 1);
+
+  return issues;
+}
+
+/**
+ * @param {import('markdown-it/lib/token.mjs').default} token
+ * @param {ConvertOptions} options
+ * @returns {string | null}
+ */
+function getIssue(token, options) {
+  switch (token.type) {
+    case 'fence': {
+      // Diagrams are rendered and queries frozen by the plugin
+      if (token.meta && (token.meta.filename || token.meta.dataview)) return null;
+      const language = token.info.trim().split(/\s+/)[0];
+      if (language && !CODE_LANGUAGES.has(language.toLowerCase())) {
+        return `Code language "${language}" is not highlighted by Confluence`;
+      }
+      return null;
+    }
+    case 'html_block':
+      return /^\s*<!--/.test(token.content)
+        ? null
+        : 'HTML block is published as plain text';
+    case 'html_inline':
+      return renderInlineHtml(token.content) === escapeText(token.content)
+        ? `Inline HTML ${token.content} is published as plain text`
+        : null;
+    case 'image':
+      return isVaultImage(token.attrGet('src') || '', options)
+        ? `Image ${token.attrGet('src')} is left out`
+        : null;
+    case 'embed':
+      return getEmbedType(token.meta.target.split('#')[0].trim()) === 'note'
+        ? `Embedded note ${token.meta.target} is published as a link, not its content. Put it on a line of its own to include it.`
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether an inline run holds nothing but `![[embeds]]`, one or more per line
+ * @param {import('markdown-it/lib/token.mjs').default} token
+ * @returns {boolean}
+ */
+function isEmbedLine(token) {
+  const children = token.children || [];
+  return (
+    children.some((child) => child.type === 'embed') &&
+    children.every(
+      (child) =>
+        child.type === 'embed' ||
+        child.type === 'softbreak' ||
+        (child.type === 'text' && !child.content.trim()),
+    )
+  );
+}
+
+/**
+ * Tags used in the body, without the `#`: inline `#tags` outside code and the
+ * tags of dataviewjs tag blocks (which are left out of the page).
+ * @param {string} markdown
+ * @returns {string[]}
+ */
+export function collectTags(markdown) {
+  const tags = [];
+
+  for (const match of markdown.matchAll(DATAVIEW_TAGS)) {
+    tags.push(...splitDataviewTags(match[1]));
+  }
+
+  const walk = (tokens) => {
+    for (const token of tokens) {
+      if (token.type === 'text') {
+        for (const match of token.content.matchAll(INLINE_TAG)) {
+          tags.push(match[1]);
+        }
+      } else if (token.children) {
+        walk(token.children);
+      }
+    }
+  };
+  // Escaped \#hashes are text, not tags
+  walk(parse(markdown.replace(/\\#/g, '\\ ')));
+
+  return [...new Set(tags)];
+}
+
+/**
+ * @param {string} target
+ * @returns {Embed['type']}
+ */
+function getEmbedType(target) {
+  if (/\.md$/i.test(target) || !FILE_EXTENSION.test(target)) return 'note';
+  if (IMAGE_EXTENSIONS.test(target)) return 'image';
+  if (MEDIA_EXTENSIONS.test(target)) return 'media';
+  return 'file';
+}
+
+/**
+ * @param {string} markdown
+ */
+function parse(markdown) {
+  // Tag blocks are blanked out line for line so token line numbers still match
+  const source = escapeTablePipes(
+    markdown.replace(DATAVIEW_TAGS, (block) => block.replace(/[^\n]/g, '')),
+  );
+  return md.parse(source, {});
+}
+
+/**
+ * Tags listed in a dataviewjs tag block, e.g. `'TI', "Ops"`
+ * @param {string} list
+ * @returns {string[]}
+ */
+function splitDataviewTags(list) {
+  return list
+    .split(',')
+    .map((tag) => tag.trim().replace(/['"]/g, ''))
+    .filter((tag) => tag.length > 0);
+}
+
+/**
+ * GFM splits table rows on every unescaped pipe, even inside code spans and
+ * wiki links. Escape those so `a|b` and [[Note|Alias]] stay in one cell.
+ * @param {string} text
+ * @returns {string}
+ */
+function escapeTablePipes(text) {
+  let inFence = false;
+
+  return text
+    .split('\n')
+    .map((line) => {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+        return line;
+      }
+      if (inFence || !/^\s*\|/.test(line)) {
+        return line;
+      }
+      return line.replace(/`[^`]*`|\[\[[^\]]*\]\]/g, (span) =>
+        span.replace(/(?<!\\)\|/g, '\\|'),
+      );
+    })
+    .join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Parser extensions
+// ---------------------------------------------------------------------------
+
+/**
+ * Obsidian wiki links `[[Note#Heading|Alias]]` and embeds `![[file|alias]]`.
+ * @param {MarkdownIt} parser
+ */
+function wikiLinks(parser) {
+  parser.inline.ruler.before('link', 'wikilink', (state, silent) => {
+    const { src } = state;
+    const isEmbed = src.charCodeAt(state.pos) === 0x21; /* ! */
+    const start = isEmbed ? state.pos + 1 : state.pos;
+
+    if (src.charCodeAt(start) !== 0x5b || src.charCodeAt(start + 1) !== 0x5b) {
+      return false;
+    }
+
+    const end = src.indexOf(']]', start + 2);
+    if (end === -1) return false;
+
+    const content = src.slice(start + 2, end);
+    if (!content.trim() || /[[\]\n]/.test(content)) return false;
+
+    if (!silent) {
+      // Inside tables the alias separator has to be escaped as \|
+      const [target, ...alias] = content.split(/\\?\|/);
+      const token = state.push(isEmbed ? 'embed' : 'wikilink', '', 0);
+      token.meta = { target: target.trim(), alias: alias.join('|').trim() };
+    }
+
+    state.pos = end + 2;
+    return true;
+  });
+}
+
+/**
+ * Attachment filenames of embedded files. Files are attached under their own
+ * name unless embeds of different paths share it, e.g. a/diagram.png and
+ * b/diagram.png, which are attached as a-diagram.png and b-diagram.png.
+ * @param {MarkdownIt} parser
+ */
+function embedFilenames(parser) {
+  parser.core.ruler.push('embed_filenames', (state) => {
+    const embeds = [];
+    const walk = (tokens) => {
+      for (const token of tokens) {
+        if (token.type === 'embed') embeds.push(token);
+        else if (token.children) walk(token.children);
+      }
+    };
+    walk(state.tokens);
+
+    // Paths embedded under each filename
+    const paths = new Map();
+    for (const token of embeds) {
+      const target = token.meta.target.split('#')[0].trim();
+      const name = target.split('/').pop() || target;
+      paths.set(name, (paths.get(name) || new Set()).add(target));
+      token.meta.filename = name;
+    }
+
+    for (const token of embeds) {
+      if (paths.get(token.meta.filename).size > 1) {
+        token.meta.filename = token.meta.target
+          .split('#')[0]
+          .trim()
+          .replace(/^\/+/, '')
+          .replace(/\//g, '-');
+      }
+    }
+  });
+}
+
+/**
+ * GFM task list items `- [ ]` / `- [x]`. The marker is stripped and the list
+ * item is flagged so it can be rendered as a Confluence task.
+ * @param {MarkdownIt} parser
+ */
+function taskLists(parser) {
+  parser.core.ruler.after('inline', 'task_lists', (state) => {
+    const { tokens } = state;
+
+    for (let i = 2; i < tokens.length; i++) {
+      const inline = tokens[i];
+      if (
+        inline.type !== 'inline' ||
+        tokens[i - 1].type !== 'paragraph_open' ||
+        tokens[i - 2].type !== 'list_item_open'
+      ) {
+        continue;
+      }
+
+      const match = inline.content.match(/^\[([ xX])\](?:\s+|$)/);
+      const first = inline.children && inline.children[0];
+      if (!match || !first || first.type !== 'text') continue;
+      if (!first.content.startsWith(match[0].trimEnd())) continue;
+
+      first.content = first.content.slice(match[0].length);
+      tokens[i - 2].meta = { task: true, checked: match[1] !== ' ' };
+    }
+  });
+}
+
+/**
+ * Obsidian callouts `> [!type]± Title`. The marker line is removed from the
+ * blockquote and recorded on it so it can be rendered as a panel macro.
+ * @param {MarkdownIt} parser
+ */
+function callouts(parser) {
+  parser.core.ruler.after('inline', 'callouts', (state) => {
+    const { tokens } = state;
+
+    for (let i = 0; i + 2 < tokens.length; i++) {
+      const inline = tokens[i + 2];
+      if (
+        tokens[i].type !== 'blockquote_open' ||
+        tokens[i + 1].type !== 'paragraph_open' ||
+        inline.type !== 'inline'
+      ) {
+        continue;
+      }
+
+      const match = inline.content.match(/^\[!([\w-]+)\]([+-]?)[ \t]*(.*)/);
+      if (!match) continue;
+
+      // Everything up to the first line break belongs to the marker line
+      const children = inline.children || [];
+      const lineEnd = children.findIndex(
+        (child) => child.type === 'softbreak' || child.type === 'hardbreak',
+      );
+      inline.children = lineEnd === -1 ? [] : children.slice(lineEnd + 1);
+      inline.content = inline.content.replace(/^.*(\n|$)/, '');
+
+      tokens[i].meta = {
+        callout: {
+          type: match[1].toLowerCase(),
+          folded: match[2] === '-',
+          title: match[3].trim(),
+        },
+      };
+    }
+  });
+}
+
+/**
+ * Number mermaid fences so every diagram gets a stable attachment filename.
+ * @param {MarkdownIt} parser
+ */
+function mermaidDiagrams(parser) {
+  parser.core.ruler.push('mermaid_diagrams', (state) => {
+    let index = 0;
+
+    for (const token of state.tokens) {
+      if (token.type === 'fence' && token.info.trim().split(/\s+/)[0] === 'mermaid') {
+        token.meta = { filename: `MERMAID-PLACEHOLDER-${index++}.svg` };
+      }
+    }
+  });
+}
+
+/**
+ * Mark dataview fences with their query language.
+ * @param {MarkdownIt} parser
+ */
+function dataviewQueries(parser) {
+  parser.core.ruler.push('dataview_queries', (state) => {
+    for (const token of state.tokens) {
+      if (token.type !== 'fence') continue;
+
+      const language = token.info.trim().split(/\s+/)[0].toLowerCase();
+      if (language === 'dataview' || language === 'dataviewjs') {
+        token.meta = { dataview: language };
+      }
+    }
+  });
+}
+
+/**
+ * LaTeX math: `$inline$` formulas and `$$display$$` formulas, either on lines
+ * of their own or inline.
+ * @param {MarkdownIt} parser
+ */
+function math(parser) {
+  parser.block.ruler.before(
+    'fence',
+    'math_block',
+    (state, startLine, endLine, silent) => {
+      if (state.sCount[startLine] - state.blkIndent >= 4) return false;
+
+      const start = state.bMarks[startLine] + state.tShift[startLine];
+      const firstLine = state.src.slice(start, state.eMarks[startLine]).trim();
+      if (!firstLine.startsWith('$$')) return false;
+
+      // $$x$$ on one line, or $$ ... $$ over several
+      let lastLine = startLine;
+      let content = firstLine.slice(2);
+      if (content.length >= 2 && content.endsWith('$$')) {
+        content = content.slice(0, -2);
+      } else {
+        const lines = [content];
+        let closed = false;
+        for (lastLine = startLine + 1; lastLine < endLine; lastLine++) {
+          const line = state.src
+            .slice(
+              state.bMarks[lastLine] + state.tShift[lastLine],
+              state.eMarks[lastLine],
+            )
+            .trim();
+          if (line.endsWith('$$')) {
+            lines.push(line.slice(0, -2));
+            closed = true;
+            break;
+          }
+          lines.push(line);
+        }
+        if (!closed) return false;
+        content = lines.join('\n');
+      }
+
+      if (silent) return true;
+
+      const token = state.push('math_block', 'math', 0);
+      token.block = true;
+      token.content = content.trim();
+      token.map = [startLine, lastLine + 1];
+      token.meta = { display: true };
+      state.line = lastLine + 1;
+      return true;
+    },
+    { alt: ['paragraph', 'reference', 'blockquote', 'list'] },
+  );
+
+  parser.inline.ruler.after('escape', 'math_inline', (state, silent) => {
+    const { src, pos } = state;
+    if (src.charCodeAt(pos) !== 0x24 /* $ */) return false;
+
+    const display = src.charCodeAt(pos + 1) === 0x24;
+    const delimiter = display ? '$$' : '$';
+    const start = pos + delimiter.length;
+    // Prices like "$5 and $10" are not math: no space inside the dollars,
+    // and no digit straight after the closing one
+    if (!display && /^\s?$/.test(src.charAt(start))) return false;
+
+    let end = start;
+    for (;;) {
+      end = src.indexOf(delimiter, end);
+      if (end === -1 || end >= state.posMax) return false;
+      if (
+        src.charCodeAt(end - 1) !== 0x5c /* \ */ &&
+        (display ||
+          (!/\s/.test(src.charAt(end - 1)) && !/\d/.test(src.charAt(end + 1))))
+      ) {
+        break;
+      }
+      end++;
+    }
+    if (end === start) return false;
+
+    if (!silent) {
+      const token = state.push('math_inline', 'math', 0);
+      token.content = src.slice(start, end).trim();
+      token.meta = { display };
+    }
+    state.pos = end + delimiter.length;
+    return true;
+  });
+}
+
+/**
+ * Footnotes: `[^label]` references to `[^label]: text` definitions, and
+ * inline `^[text]` notes. The definitions are moved into one list at the end
+ * of the document, numbered in the order they are first referenced.
+ * @param {MarkdownIt} parser
+ */
+function footnotes(parser) {
+  // Before reference, which would take `[^1]: text` for a link definition
+  parser.block.ruler.before(
+    'reference',
+    'footnote_definition',
+    (state, startLine, endLine, silent) => {
+      if (state.sCount[startLine] - state.blkIndent >= 4) return false;
+
+      const start = state.bMarks[startLine] + state.tShift[startLine];
+      const match = state.src
+        .slice(start, state.eMarks[startLine])
+        .match(/^\[\^([^\]\s]+)\]:[ \t]*(.*)$/);
+      if (!match) return false;
+      if (silent) return true;
+
+      // Indented lines that follow belong to the definition
+      const lines = [match[2]];
+      let line = startLine + 1;
+      while (
+        line < endLine &&
+        !state.isEmpty(line) &&
+        state.sCount[line] - state.blkIndent >= 2
+      ) {
+        lines.push(
+          state.src.slice(state.bMarks[line] + state.tShift[line], state.eMarks[line]),
+        );
+        line++;
+      }
+
+      state.env.footnotes = state.env.footnotes || {};
+      if (!(match[1] in state.env.footnotes)) {
+        state.env.footnotes[match[1]] = lines.join('\n').trim();
+      }
+
+      const token = state.push('footnote_definition', '', 0);
+      token.map = [startLine, line];
+      state.line = line;
+      return true;
+    },
+    { alt: ['paragraph', 'reference'] },
+  );
+
+  parser.inline.ruler.before('link', 'footnote_ref', (state, silent) => {
+    const { src, pos } = state;
+    let end;
+    let meta;
+
+    if (src.startsWith('[^', pos)) {
+      end = src.indexOf(']', pos + 2);
+      const label = end === -1 ? '' : src.slice(pos + 2, end);
+      // References to missing definitions stay as they are written
+      if (!label || /\s/.test(label) || !(label in (state.env.footnotes || {}))) {
+        return false;
+      }
+      meta = { label };
+    } else if (src.startsWith('^[', pos)) {
+      end = state.md.helpers.parseLinkLabel(state, pos + 1);
+      if (end < 0) return false;
+      meta = { label: null, content: src.slice(pos + 2, end) };
+    } else {
+      return false;
+    }
+
+    if (!silent) {
+      state.push('footnote_ref', '', 0).meta = meta;
+    }
+    state.pos = end + 1;
+    return true;
+  });
+
+  parser.core.ruler.after('inline', 'footnote_tail', (state) => {
+    state.tokens = state.tokens.filter(
+      (token) => token.type !== 'footnote_definition',
+    );
+
+    const notes = [];
+    const numbers = new Map();
+    for (const token of state.tokens) {
+      if (token.type !== 'inline') continue;
+
+      for (const child of token.children || []) {
+        if (child.type !== 'footnote_ref') continue;
+
+        const { label } = child.meta;
+        if (label !== null && numbers.has(label)) {
+          child.meta.number = numbers.get(label);
+          continue;
+        }
+
+        notes.push(label === null ? child.meta.content : state.env.footnotes[label]);
+        child.meta.number = notes.length;
+        // The first reference is where the footnote links back to
+        child.meta.first = true;
+        if (label !== null) numbers.set(label, notes.length);
+      }
+    }
+    if (notes.length === 0) return;
+
+    const list = new state.Token('footnotes', '', 0);
+    list.block = true;
+    list.children = notes.map((content) => {
+      const inline = new state.Token('inline', '', 0);
+      inline.content = content;
+      inline.children = [];
+      state.md.inline.parse(content, state.md, state.env, inline.children);
+      return inline;
+    });
+    state.tokens.push(list);
+  });
+}
+
+/**
+ * Obsidian highlights `==text==`.
+ * @param {MarkdownIt} parser
+ */
+function highlights(parser) {
+  parser.inline.ruler.before('emphasis', 'highlight', (state, silent) => {
+    const { src, pos } = state;
+    if (!src.startsWith('==', pos)) return false;
+
+    const start = pos + 2;
+    const end = src.indexOf('==', start);
+    if (
+      end === -1 ||
+      end >= state.posMax ||
+      /^\s?$/.test(src.charAt(start)) ||
+      /\s/.test(src.charAt(end - 1))
+    ) {
+      return false;
+    }
+
+    if (!silent) {
+      const posMax = state.posMax;
+      state.push('mark_open', 'mark', 1);
+      state.pos = start;
+      state.posMax = end;
+      state.md.inline.tokenize(state);
+      state.posMax = posMax;
+      state.push('mark_close', 'mark', -1);
+    }
+    state.pos = end + 2;
+    return true;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tree
+// ---------------------------------------------------------------------------
+
+/**
+ * Fold markdown-it's flat token stream into a tree of nodes.
+ * @param {import('markdown-it/lib/token.mjs').default[]} tokens
+ * @returns {TreeNode}
+ */
+function buildTree(tokens) {
+  /** @type {TreeNode} */
+  const root = { type: 'root', token: null, children: [] };
+  const stack = [root];
+
+  for (const token of tokens) {
+    const parent = stack[stack.length - 1];
+
+    if (token.nesting === 1) {
+      const node = {
+        type: token.type.replace(/_open$/, ''),
+        token,
+        children: [],
+      };
+      parent.children.push(node);
+      stack.push(node);
+    } else if (token.nesting === -1) {
+      stack.pop();
+    } else {
+      parent.children.push({
+        type: token.type,
+        token,
+        children: token.children ? buildTree(token.children).children : [],
+      });
+    }
+  }
+
+  return root;
+}
+
+// ---------------------------------------------------------------------------
+// Block serialization
+// ---------------------------------------------------------------------------
+
+/**
+ * @param {TreeNode[]} nodes
+ * @param {ConvertOptions} options
+ * @param {string} [separator]
+ * @returns {string}
+ */
+function renderBlocks(nodes, options, separator = '') {
+  return nodes
+    .map((node) => renderBlock(node, options))
+    .filter((block) => block)
+    .join(separator);
+}
+
+/**
+ * @param {TreeNode} node
+ * @param {ConvertOptions} options
+ * @returns {string}
+ */
+function renderBlock(node, options) {
+  const { token } = node;
+
+  switch (node.type) {
+    case 'heading':
+      return `<${token.tag}>${renderInline(node.children, options)}</${token.tag}>`;
+    case 'paragraph': {
+      const content = renderBlocks(node.children, options);
+      // Paragraphs in tight lists are hidden
+      return token.hidden ? content : content && `<p>${content}</p>`;
+    }
+    case 'inline':
+      return renderInline(node.children, options);
+    case 'bullet_list':
+    case 'ordered_list':
+      return renderList(node, options);
+    case 'blockquote':
+      if (token.meta && token.meta.callout) {
+        return renderCallout(token.meta.callout, node, options);
+      }
+      return `<blockquote>${renderBlocks(node.children, options)}</blockquote>`;
+    case 'fence':
+      if (token.meta && token.meta.filename && !isUnrendered(token, options)) {
+        return renderAttachmentImage(token.meta.filename, DEFAULT_IMAGE_WIDTH);
+      }
+      return renderCodeMacro(token.info.trim().split(/\s+/)[0], token.content);
+    case 'code_block':
+      return renderCodeMacro('', token.content);
+    case 'math_block':
+      return renderMathMacro(
+        (options.mathMacros || DEFAULT_MATH_MACROS).block,
+        token.content,
+        true,
+      );
+    case 'footnotes':
+      return renderFootnotes(node, options);
+    case 'table':
+      return renderTable(node, options);
+    case 'hr':
+      return '<hr/>';
+    case 'html_block':
+      // Raw HTML isn't valid storage format; keep it readable as text
+      return /^\s*<!--/.test(token.content)
+        ? ''
+        : `<p>${escapeText(token.content.trim())}</p>`;
+    default:
+      return renderBlocks(node.children, options);
+  }
+}
+
+/**
+ * Lists are split into runs of regular items and task items, since Confluence
+ * keeps tasks in their own `ac:task-list`.
+ * @param {TreeNode} list
+ * @param {ConvertOptions} options
+ * @returns {string}
+ */
+function renderList(list, options) {
+  const tag = list.type === 'ordered_list' ? 'ol' : 'ul';
+  const runs = [];
+
+  for (const item of list.children) {
+    const isTask = !!(item.token && item.token.meta && item.token.meta.task);
+    const last = runs[runs.length - 1];
+    if (last && last.isTask === isTask) {
+      last.items.push(item);
+    } else {
+      runs.push({ isTask, items: [item] });
+    }
+  }
+
+  return runs
+    .map((run) => {
+      if (run.isTask) {
+        const tasks = run.items.map((item) => {
+          const status = item.token.meta.checked ? 'complete' : 'incomplete';
+          return `<ac:task><ac:task-status>${status}</ac:task-status><ac:task-body>${renderBlocks(item.children, options)}</ac:task-body></ac:task>`;
+        });
+        return `<ac:task-list>${tasks.join('')}</ac:task-list>`;
+      }
+
+      const items = run.items.map(
+        (item) => `<li>${renderBlocks(item.children, options)}</li>`,
+      );
+      return `<${tag}>${items.join('')}</${tag}>`;
+    })
+    .join('');
+}
+
+/**
+ * @param {TreeNode} table
+ * @param {ConvertOptions} options
+ * @returns {string}
+ */
+function renderTable(table, options) {
+  const rows = [];
+
+  const collectRows = (node) => {
+    for (const child of node.children) {
+      if (child.type === 'tr') {
+        rows.push(child);
+      } else {
+        collectRows(child);
+      }
+    }
+  };
+  collectRows(table);
+
+  const html = rows.map((row) => {
+    const cells = row.children.map((cell) => {
+      const tag = cell.type === 'th' ? 'th' : 'td';
+      return `<${tag}>${renderBlocks(cell.children, options)}</${tag}>`;
+    });
+    return `<tr>${cells.join('')}</tr>`;
+  });
+
+  return `<table><tbody>${html.join('')}</tbody></table>`;
+}
+
+/**
+ * Callouts become info/note/tip/warning panels, folded ones (`[!type]-`)
+ * an expand macro.
+ * @param {{ type: string, folded: boolean, title: string }} callout
+ * @param {TreeNode} node
+ * @param {ConvertOptions} options
+ * @returns {string}
+ */
+function renderCallout(callout, node, options) {
+  const body = renderBlocks(node.children, options);
+
+  if (callout.folded) {
+    const title =
+      callout.title || callout.type.charAt(0).toUpperCase() + callout.type.slice(1);
+    return renderMacro('expand', { title: escapeText(title) }, body);
+  }
+
+  const macro =
+    Object.keys(CALLOUT_MACROS).find((name) =>
+      CALLOUT_MACROS[name].includes(callout.type),
+    ) || 'info';
+  const parameters = callout.title ? { title: escapeText(callout.title) } : {};
+  return renderMacro(macro, parameters, body);
+}
+
+/**
+ * @param {string} name
+ * @param {Record<string, string>} parameters Values as storage markup
+ * @param {string} [body] Rich text body
+ * @returns {string}
+ */
+function renderMacro(name, parameters, body) {
+  const params = Object.keys(parameters)
+    .map(
+      (key) =>
+        `<ac:parameter ac:name="${escapeAttribute(key)}">${parameters[key]}</ac:parameter>`,
+    )
+    .join('');
+  const richText =
+    body === undefined ? '' : `<ac:rich-text-body>${body}</ac:rich-text-body>`;
+  return `<ac:structured-macro ac:name="${escapeAttribute(name)}">${params}${richText}</ac:structured-macro>`;
+}
+
+/**
+ * Whether the attachment a diagram is shown from is missing
+ * @param {import('markdown-it/lib/token.mjs').default} token
+ * @param {ConvertOptions} options
+ * @returns {boolean}
+ */
+function isUnrendered(token, options) {
+  return !!options.unrendered && options.unrendered.has(token.meta.filename);
+}
+
+/**
+ * @param {string} name
+ * @param {string} tex
+ * @param {boolean} display
+ * @returns {string}
+ */
+function renderMathMacro(name, tex, display) {
+  return display
+    ? `<ac:structured-macro ac:name="${escapeAttribute(name)}"><ac:plain-text-body>${wrapCdata(tex)}</ac:plain-text-body></ac:structured-macro>`
+    : renderMacro(name, { body: escapeText(tex) });
+}
+
+/**
+ * Footnotes as a numbered list under a rule, each linking back to where it is
+ * first referenced.
+ * @param {TreeNode} node
+ * @param {ConvertOptions} options
+ * @returns {string}
+ */
+function renderFootnotes(node, options) {
+  const items = node.children.map((note, index) => {
+    const number = index + 1;
+    return `<li>${renderAnchor(`fn-${number}`)}${renderInline(note.children, options)} ${renderAnchorLink(`fnref-${number}`, '↩')}</li>`;
+  });
+  return `<hr/><ol>${items.join('')}</ol>`;
+}
+
+/**
+ * @param {string} name
+ * @returns {string}
+ */
+function renderAnchor(name) {
+  return renderMacro('anchor', { '': escapeText(name) });
+}
+
+/**
+ * @param {string} anchor
+ * @param {string} text
+ * @returns {string}
+ */
+function renderAnchorLink(anchor, text) {
+  return `<ac:link ac:anchor="${escapeAttribute(anchor)}"><ac:plain-text-link-body>${wrapCdata(text)}</ac:plain-text-link-body></ac:link>`;
+}
+
+/**
+ * @param {string} language
+ * @param {string} code
+ * @returns {string}
+ */
+function renderCodeMacro(language, code) {
+  return `<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">${escapeText(language || 'none')}</ac:parameter><ac:plain-text-body>${wrapCdata(code)}</ac:plain-text-body></ac:structured-macro>`;
+}
+
+// ---------------------------------------------------------------------------
+// Inline serialization
+// ---------------------------------------------------------------------------
+
+/**
+ * @param {TreeNode[]} nodes
+ * @param {ConvertOptions} options
+ * @returns {string}
+ */
+function renderInline(nodes, options) {
+  return nodes.map((node) => renderInlineNode(node, options)).join('');
+}
+
+/**
+ * @param {TreeNode} node
+ * @param {ConvertOptions} options
+ * @returns {string}
+ */
+function renderInlineNode(node, options) {
+  const { token } = node;
+
+  switch (node.type) {
+    case 'text':
+    case 'text_special':
+      return escapeText(token.content);
+    case 'softbreak':
+    case 'hardbreak':
+      return '<br/>';
+    case 'code_inline':
+      return `<code>${escapeText(token.content)}</code>`;
+    case 'strong':
+      return `<strong>${renderInline(node.children, options)}</strong>`;
+    case 'em':
+      return `<em>${renderInline(node.children, options)}</em>`;
+    case 's':
+      return `<s>${renderInline(node.children, options)}</s>`;
+    case 'mark':
+      return `<span style="background-color: ${HIGHLIGHT_COLOR};">${renderInline(node.children, options)}</span>`;
+    case 'math_inline': {
+      const { display } = token.meta;
+      const { inline, block } = options.mathMacros || DEFAULT_MATH_MACROS;
+      return renderMathMacro(display ? block : inline, token.content, display);
+    }
+    case 'footnote_ref': {
+      const { number, first } = token.meta;
+      const anchor = first ? renderAnchor(`fnref-${number}`) : '';
+      return `${anchor}<sup>${renderAnchorLink(`fn-${number}`, String(number))}</sup>`;
+    }
+    case 'link': {
+      const href = token.attrGet('href') || '';
+      return `<a href="${escapeAttribute(href)}">${renderInline(node.children, options)}</a>`;
+    }
+    case 'image':
+      return renderImage(token, options);
+    case 'wikilink':
+      return renderWikiLink(token.meta.target, token.meta.alias, options);
+    case 'embed': {
+      const embed = options.renderEmbed
+        ? options.renderEmbed(token.meta.target, token.meta.alias)
+        : null;
+      if (embed !== null) {
+        return embed;
+      }
+      return renderEmbed(
+        token.meta.target,
+        token.meta.alias,
+        token.meta.filename,
+        options,
+      );
+    }
+    case 'html_inline':
+      return renderInlineHtml(token.content);
+    default:
+      return renderInline(node.children, options);
+  }
+}
+
+/**
+ * @param {import('markdown-it/lib/token.mjs').default} token
+ * @param {ConvertOptions} options
+ * @returns {string}
+ */
+function renderImage(token, options) {
+  const src = token.attrGet('src') || '';
+
+  // Inline icons (e.g. ![icon](attachments/icons/atlassian.png)) only make sense in the vault
+  if (isVaultImage(src, options)) {
+    return '';
+  }
+
+  const alt = token.content
+    ? ` ac:alt="${escapeAttribute(token.content)}"`
+    : '';
+  return `<ac:image${alt}><ri:url ri:value="${escapeAttribute(src)}" /></ac:image>`;
+}
+
+/**
+ * Whether a markdown image shows a file in the attachments folder. With the
+ * vault root as the folder, that is any image that isn't a URL.
+ * @param {string} src
+ * @param {ConvertOptions} options
+ * @returns {boolean}
+ */
+function isVaultImage(src, options) {
+  const folder = (
+    options.attachmentsFolder === undefined
+      ? DEFAULT_ATTACHMENTS_FOLDER
+      : options.attachmentsFolder
+  ).replace(/^\/+|\/+$/g, '');
+  const path = decodeURI(src);
+  return folder
+    ? path.startsWith(`${folder}/`)
+    : !/^[a-z][a-z\d+.-]*:/i.test(path);
+}
+
+/**
+ * ![[photo.png|300]] -> image attachment 300px wide
+ * ![[clip.mp4]] -> multimedia macro
+ * ![[report.pdf]] -> file preview
+ * ![[Other Note]] -> link to the note's page
+ * @param {string} link
+ * @param {string} alias
+ * @param {string} filename attachment the file is uploaded as
+ * @param {ConvertOptions} options
+ * @returns {string}
+ */
+function renderEmbed(link, alias, filename, options) {
+  const target = link.split('#')[0].trim();
+  const type = getEmbedType(target);
+
+  if (type === 'note') {
+    return renderWikiLink(link, alias, options);
+  }
+
+  // Obsidian size hints: |300 or |300x200
+  const size = alias.match(/^(\d+)(?:x(\d+))?$/);
+  const width = size ? size[1] : '';
+  const height = size && size[2] ? size[2] : '';
+
+  if (type === 'image') {
+    return renderAttachmentImage(filename, width || DEFAULT_IMAGE_WIDTH, height);
+  }
+
+  const parameters = { name: renderAttachment(filename) };
+  if (type === 'media') {
+    if (width) parameters.width = width;
+    if (height) parameters.height = height;
+    return renderMacro('multimedia', parameters);
+  }
+  return renderMacro('view-file', parameters);
+}
+
+/**
+ * @param {string} filename
+ * @param {string} [width]
+ * @param {string} [height]
+ * @returns {string}
+ */
+function renderAttachmentImage(filename, width, height) {
+  const widthAttr = width ? ` ac:width="${escapeAttribute(width)}"` : '';
+  const heightAttr = height ? ` ac:height="${escapeAttribute(height)}"` : '';
+  return `<ac:image${widthAttr}${heightAttr}>${renderAttachment(filename)}</ac:image>`;
+}
+
+/**
+ * @param {string} filename
+ * @returns {string}
+ */
+function renderAttachment(filename) {
+  return `<ri:attachment ri:filename="${escapeAttribute(filename)}" />`;
+}
+
+/**
+ * [[Tech/Notes]] -> link to the "Notes" page
+ * [[Notes#Setup|Custom Text]] -> link to the "Setup" heading with custom display text
+ * @param {string} link
+ * @param {string} alias
+ * @param {ConvertOptions} options
+ * @returns {string}
+ */
+function renderWikiLink(link, alias, options) {
+  const [path, ...subpaths] = link.split('#');
+  const linkPath = path.trim();
+  const section = subpaths.length ? subpaths[subpaths.length - 1].trim() : '';
+  // Block references (#^id) have no Confluence equivalent
+  const anchor = section && !section.startsWith('^') ? toConfluenceAnchor(section) : '';
+
+  const pageTitle = linkPath.split('/').pop() || '';
+  const defaultText = [pageTitle, section].filter((part) => part).join(' > ');
+  const linkText = escapeText(alias || defaultText);
+
+  if (!linkPath) {
+    return anchor
+      ? `<ac:link ac:anchor="${escapeAttribute(anchor)}"><ac:plain-text-link-body>${wrapCdata(alias || section)}</ac:plain-text-link-body></ac:link>`
+      : linkText;
+  }
+
+  const page = options.resolveWikiLink
+    ? options.resolveWikiLink(linkPath)
+    : { title: pageTitle, spaceKey: '' };
+  if (!page) {
+    return linkText;
+  }
+
+  const anchorAttr = anchor ? ` ac:anchor="${escapeAttribute(anchor)}"` : '';
+  const spaceAttr = page.spaceKey
+    ? ` ri:space-key="${escapeAttribute(page.spaceKey)}"`
+    : '';
+  return `<ac:link${anchorAttr}><ri:page${spaceAttr} ri:content-title="${escapeAttribute(page.title)}" /><ac:plain-text-link-body>${wrapCdata(alias || defaultText)}</ac:plain-text-link-body></ac:link>`;
+}
+
+/**
+ * A handful of inline tags that have storage format equivalents are kept, any
+ * other raw HTML is shown as text.
+ * @param {string} html
+ * @returns {string}
+ */
+function renderInlineHtml(html) {
+  if (/^<br\s*\/?>$/i.test(html)) {
+    return '<br/>';
+  }
+
+  const match = html.match(/^<(\/?)([a-z]+)\s*>$/i);
+  if (match && INLINE_HTML_TAGS.includes(match[2].toLowerCase())) {
+    return `<${match[1]}${match[2].toLowerCase()}>`;
+  }
+
+  return escapeText(html);
+}
+
+// ---------------------------------------------------------------------------
+// Escaping
+// ---------------------------------------------------------------------------
+
+/**
+ * Confluence derives heading anchors from the heading text with spaces as dashes
+ * @param {string} heading
+ * @returns {string}
+ */
+export function toConfluenceAnchor(heading) {
+  return heading.replace(/\s+/g, '-');
+}
+
+/**
+ * @param {string} text
+ * @returns {string}
+ */
+function escapeText(text) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * @param {string} text
+ * @returns {string}
+ */
+function escapeAttribute(text) {
+  return escapeText(text).replace(/"/g, '&quot;');
+}
+
+/**
+ * @param {string} text
+ * @returns {string}
+ */
+function wrapCdata(text) {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
@@ -0,0 +1,169 @@
+/*
+Golden-file tests for the markdown <-> Confluence storage converters.
+
+Every fixtures/<name>.md is converted and compared with fixtures/<name>.xhtml.
+Fixtures listed in fixtureOptions are converted with those options, and the
+conversion issues found in them are appended as comments.
+
+Every fixtures/pull/<name>.xhtml is converted back and compared with
+fixtures/pull/<name>.md, with fixtures/pull/<name>.local.md (if any) as the
+note in the vault. The attachments to download are appended as comments.
+
+Run with --update to rewrite the expected outputs after an intended change.
+*/
+import esbuild from 'esbuild';
+import fs from 'fs';
+import { JSDOM } from 'jsdom';
+import path from 'path';
+import process from 'process';
+import { fileURLToPath } from 'url';
+
+const testDir = path.dirname(fileURLToPath(import.meta.url));
+const fixturesDir = path.join(testDir, 'fixtures');
+const pullFixturesDir = path.join(fixturesDir, 'pull');
+const update = process.argv.includes('--update');
+
+// The converters are bundled the same way as the plugin so they run under plain Node
+async function load(file) {
+	const result = await esbuild.build({
+		entryPoints: [path.join(testDir, '..', file)],
+		bundle: true,
+		format: 'esm',
+		platform: 'node',
+		write: false,
+		logLevel: 'silent',
+	});
+	return import(
+		`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`
+	);
+}
+const converter = await load('markdown2confluence.js');
+const pullConverter = await load('confluence2markdown.js');
+
+// Pages are parsed with the DOMParser Obsidian provides
+globalThis.DOMParser = new JSDOM('').window.DOMParser;
+
+const fixtures = fs
+	.readdirSync(fixturesDir)
+	.filter((file) => file.endsWith('.md'))
+	.sort();
+
+// Stand-ins for the hooks the plugin passes in
+const fixtureOptions = {
+	'note-embeds': {
+		renderEmbed: (target) =>
+			target === 'Published Note'
+				? '<ac:structured-macro ac:name="include"><ac:parameter ac:name=""><ac:link><ri:page ri:space-key="DOCS" ri:content-title="Published Note" /></ac:link></ac:parameter></ac:structured-macro>'
+				: null,
+	},
+	// Query blocks are frozen by the plugin, so only other code is reported
+	dataview: {},
+	'images-folder': {
+		attachmentsFolder: 'assets',
+	},
+	'mermaid-unrendered': {
+		unrendered: new Set(['MERMAID-PLACEHOLDER-1.svg']),
+	},
+	'links-resolved': {
+		resolveWikiLink: (linkPath) =>
+			({
+				'Project Plan': { title: 'Project Plan', spaceKey: 'DOCS' },
+				'Team/Roadmap': { title: 'Roadmap 2026', spaceKey: 'TEAM' },
+			})[linkPath] || null,
+	},
+};
+
+// Notes published as pages, for the page links of pull fixtures
+const notePages = [
+	{ path: 'Project Plan', id: '123', title: 'Project Plan', spaceKey: 'DOCS', headings: ['Next Steps'] },
+	{ path: 'Team/Roadmap', id: '456', title: 'Roadmap 2026', spaceKey: 'TEAM', headings: [] },
+];
+const pullOptions = {
+	resolvePageLink: (page, anchor) => {
+		const note = notePages.find((note) =>
+			page.id ? note.id === page.id : note.title === page.title && note.spaceKey === page.spaceKey,
+		);
+		if (!note) return null;
+		const heading = note.headings.find((heading) => converter.toConfluenceAnchor(heading) === anchor);
+		return anchor ? `${note.path}#${heading || anchor}` : note.path;
+	},
+};
+
+let failed = 0;
+let total = 0;
+
+for (const fixture of fixtures) {
+	const name = fixture.replace(/\.md$/, '');
+	const markdown = fs.readFileSync(path.join(fixturesDir, fixture), 'utf8');
+	const options = fixtureOptions[name];
+	let actual = `${converter.convertMarkdownToConfluence(markdown, options)}\n`;
+	if (options) {
+		for (const issue of converter.collectIssues(markdown, options)) {
+			actual += `<!-- line ${issue.line}: ${issue.message} -->\n`;
+		}
+	}
+	check(name, actual, path.join(fixturesDir, `${name}.xhtml`));
+}
+
+const pullFixtures = fs
+	.readdirSync(pullFixturesDir)
+	.filter((file) => file.endsWith('.xhtml'))
+	.sort();
+
+for (const fixture of pullFixtures) {
+	const name = fixture.replace(/\.xhtml$/, '');
+	const storage = fs.readFileSync(path.join(pullFixturesDir, fixture), 'utf8');
+	const localPath = path.join(pullFixturesDir, `${name}.local.md`);
+	const localMarkdown = fs.existsSync(localPath)
+		? fs.readFileSync(localPath, 'utf8')
+		: '';
+	const { markdown, attachments } = pullConverter.convertConfluenceToMarkdown(
+		storage,
+		{ ...pullOptions, localMarkdown },
+	);
+	let actual = markdown;
+	for (const attachment of attachments) {
+		actual += `<!-- attachment ${attachment.filename} -> ${attachment.target} -->\n`;
+	}
+	check(`pull/${name}`, actual, path.join(pullFixturesDir, `${name}.md`));
+}
+
+if (!update) {
+	console.log(`\n${total - failed} passed, ${failed} failed`);
+}
+process.exit(failed > 0 ? 1 : 0);
+
+function check(name, actual, expectedPath) {
+	total++;
+	if (update) {
+		fs.writeFileSync(expectedPath, actual);
+		console.log(`updated ${name}`);
+		return;
+	}
+
+	const expected = fs.existsSync(expectedPath)
+		? fs.readFileSync(expectedPath, 'utf8')
+		: '';
+
+	if (actual === expected) {
+		console.log(`ok      ${name}`);
+		return;
+	}
+
+	failed++;
+	console.log(`FAIL    ${name}`);
+	printDiff(expected, actual);
+}
+
+function printDiff(expected, actual) {
+	const expectedLines = expected.split('\n');
+	const actualLines = actual.split('\n');
+	const count = Math.max(expectedLines.length, actualLines.length);
+
+	for (let i = 0; i < count; i++) {
+		if (expectedLines[i] === actualLines[i]) continue;
+		console.log(`  line ${i + 1}`);
+		if (expectedLines[i] !== undefined) console.log(`  - ${expectedLines[i]}`);
+		if (actualLines[i] !== undefined) console.log(`  + ${actualLines[i]}`);
+	}
+}